@@ -10,22 +10,59 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { useMemoryEngine } from './src/hooks/useMemoryEngine';
 import { HomeScreen } from './src/screens/HomeScreen';
 import { IndexingScreen } from './src/screens/IndexingScreen';
+import { MemoryDetailScreen } from './src/screens/MemoryDetailScreen';
+import type { FileRecord, SearchResult } from './src/types';
 
 const App: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<'home' | 'indexing'>('home');
+  // Memory open in the detail screen (drawn over home so the search is kept)
+  const [detailFile, setDetailFile] = useState<FileRecord | SearchResult | null>(null);
   
   const {
     state,
     searchResults,
+    searchPagination,
+    searchDateRange,
+    searchDocumentQuery,
+    similarTo,
+    imageQuery,
+    searchSuggestions,
+    savedSearches,
+    allTags,
+    autoTags,
     allFiles,
     selectedFiles,
     availableVisionModels,
     selectFiles,
     clearSelection,
     startIndexing,
+    resumeIndexing,
+    discardResumableJob,
+    retryFailedFiles,
+    pauseIndexing,
+    continueIndexing,
+    cancelIndexing,
     search,
+    loadMoreResults,
+    dismissDateRange,
+    dismissDocumentQuery,
+    findSimilar,
+    searchByImage,
+    loadSuggestions,
+    recordSearch,
+    deleteSearchHistoryEntry,
+    saveCurrentSearch,
+    openSavedSearch,
+    deleteSavedSearch,
     clearSearch,
     clearAllData,
+    deleteFiles,
+    getFileDetails,
+    recaptionFile,
+    updateCaption,
+    setNote,
+    addTag,
+    removeTag,
     refreshFiles,
     setVisionModel,
   } = useMemoryEngine();
@@ -56,8 +93,31 @@ const App: React.FC = () => {
   }, [selectFiles]);
 
   const handleStartIndexing = useCallback(async () => {
+    // A failed run leaves its job queued - retry continues it instead of re-adding the files
+    if (state.progress.phase === 'error' && state.resumableJob) {
+      await resumeIndexing();
+      return;
+    }
     await startIndexing();
-  }, [startIndexing]);
+  }, [state.progress.phase, state.resumableJob, resumeIndexing, startIndexing]);
+
+  const closeDetail = useCallback(() => {
+    setDetailFile(null);
+  }, []);
+
+  const handleDetailFindSimilar = useCallback((file: FileRecord) => {
+    setDetailFile(null);
+    findSimilar(file);
+  }, [findSimilar]);
+
+  const handleDetailDelete = useCallback(async (id: number) => {
+    await deleteFiles([id]);
+  }, [deleteFiles]);
+
+  const handleResumeIndexing = useCallback(async () => {
+    setCurrentScreen('indexing');
+    await resumeIndexing();
+  }, [resumeIndexing]);
 
   if (currentScreen === 'indexing') {
     return (
@@ -67,26 +127,73 @@ const App: React.FC = () => {
         isIndexing={state.isIndexing}
         onStartIndexing={handleStartIndexing}
         onCancel={navigateToHome}
+        onPauseIndexing={pauseIndexing}
+        onContinueIndexing={continueIndexing}
+        onCancelIndexing={cancelIndexing}
+        onRetryFailed={retryFailedFiles}
         availableModels={availableVisionModels}
         selectedModel={state.selectedVisionModel}
         onModelSelect={setVisionModel}
         error={state.error}
+        summary={state.lastIndexingSummary}
       />
     );
   }
 
   return (
-    <HomeScreen
-      state={state}
-      searchResults={searchResults}
-      allFiles={allFiles}
-      onSearch={search}
-      onClearSearch={clearSearch}
-      onAddFiles={handleAddFiles}
-      onNavigateToIndexing={navigateToIndexing}
-      onClearAllData={clearAllData}
-      selectedFilesCount={selectedFiles.length}
-    />
+    <>
+      <HomeScreen
+        state={state}
+        searchResults={searchResults}
+        searchPagination={searchPagination}
+        searchDateRange={searchDateRange}
+        searchDocumentQuery={searchDocumentQuery}
+        similarTo={similarTo}
+        imageQuery={imageQuery}
+        searchSuggestions={searchSuggestions}
+        savedSearches={savedSearches}
+        autoTags={autoTags}
+        allFiles={allFiles}
+        onSearch={search}
+        onLoadMoreResults={loadMoreResults}
+        onDismissDateRange={dismissDateRange}
+        onDismissDocumentQuery={dismissDocumentQuery}
+        onFindSimilar={findSimilar}
+        onSearchByImage={searchByImage}
+        onLoadSuggestions={loadSuggestions}
+        onRecordSearch={recordSearch}
+        onDeleteSearchHistoryEntry={deleteSearchHistoryEntry}
+        onSaveSearch={saveCurrentSearch}
+        onOpenSavedSearch={openSavedSearch}
+        onDeleteSavedSearch={deleteSavedSearch}
+        onOpenFile={setDetailFile}
+        onClearSearch={clearSearch}
+        onAddFiles={handleAddFiles}
+        onNavigateToIndexing={navigateToIndexing}
+        onClearAllData={clearAllData}
+        onDeleteFiles={deleteFiles}
+        onResumeIndexing={handleResumeIndexing}
+        onDiscardResumableJob={discardResumableJob}
+        selectedFilesCount={selectedFiles.length}
+      />
+      {detailFile && (
+        <MemoryDetailScreen
+          file={detailFile}
+          isBusy={state.isIndexing || state.isSearching}
+          error={state.error}
+          allTags={allTags}
+          onBack={closeDetail}
+          onLoadDetails={getFileDetails}
+          onRecaption={recaptionFile}
+          onUpdateCaption={updateCaption}
+          onSetNote={setNote}
+          onAddTag={addTag}
+          onRemoveTag={removeTag}
+          onFindSimilar={handleDetailFindSimilar}
+          onDelete={handleDetailDelete}
+        />
+      )}
+    </>
   );
 };
 
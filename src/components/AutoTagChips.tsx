@@ -0,0 +1,82 @@
+/**
+ * AutoTagChips Component
+ *
+ * Horizontal row of automatic tags with:
+ * - Tap to filter by a tag (adds is:<label> to the search)
+ * - Active tags shown as removable filter chips
+ * - How many memories carry each tag
+ */
+
+import React from 'react';
+import {
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { FilterChip } from './FilterChip';
+import { THEME } from '../constants/config';
+import type { AutoTag } from '../types';
+
+interface AutoTagChipsProps {
+  tags: AutoTag[];
+  activeLabels: string[];
+  onSelect: (label: string) => void;
+  onRemove: (label: string) => void;
+}
+
+export const AutoTagChips: React.FC<AutoTagChipsProps> = ({
+  tags,
+  activeLabels,
+  onSelect,
+  onRemove,
+}) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    contentContainerStyle={styles.container}
+  >
+    {tags.map(tag =>
+      activeLabels.includes(tag.label) ? (
+        <FilterChip
+          key={tag.label}
+          label={tag.label}
+          onRemove={() => onRemove(tag.label)}
+        />
+      ) : (
+        <TouchableOpacity
+          key={tag.label}
+          style={styles.tag}
+          onPress={() => onSelect(tag.label)}
+        >
+          <Text style={styles.tagLabel}>
+            {tag.label} <Text style={styles.tagCount}>{tag.fileCount}</Text>
+          </Text>
+        </TouchableOpacity>
+      )
+    )}
+  </ScrollView>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  tag: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  tagLabel: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  tagCount: {
+    color: THEME.textMuted,
+  },
+});
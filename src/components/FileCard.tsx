@@ -28,6 +28,7 @@ const CARD_WIDTH = (SCREEN_WIDTH - 32 - CARD_GAP) / NUM_COLUMNS;
 interface FileCardProps {
   item: FileRecord | SearchResult;
   onPress?: (item: FileRecord | SearchResult) => void;
+  onLongPress?: (item: FileRecord | SearchResult) => void;
   showSimilarity?: boolean;
 }
 
@@ -109,12 +110,17 @@ FileCard.displayName = 'FileCard';
 export const FileCardCompact: React.FC<FileCardProps> = memo(({
   item,
   onPress,
+  onLongPress,
   showSimilarity = false,
 }) => {
   const handlePress = () => {
     onPress?.(item);
   };
 
+  const handleLongPress = () => {
+    onLongPress?.(item);
+  };
+
   const similarity = isSearchResult(item) ? item.similarity : null;
   const isImage = item.file_type === 'image';
 
@@ -122,6 +128,7 @@ export const FileCardCompact: React.FC<FileCardProps> = memo(({
     <TouchableOpacity
       style={styles.compactContainer}
       onPress={handlePress}
+      onLongPress={onLongPress ? handleLongPress : undefined}
       activeOpacity={0.8}
     >
       {/* Thumbnail */}
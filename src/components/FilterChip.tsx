@@ -0,0 +1,79 @@
+/**
+ * FilterChip Component
+ *
+ * Small pill showing an active search filter with:
+ * - Label text
+ * - Remove button
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { THEME } from '../constants/config';
+
+interface FilterChipProps {
+  label: string;
+  onRemove?: () => void;
+}
+
+export const FilterChip: React.FC<FilterChipProps> = ({
+  label,
+  onRemove,
+}) => (
+  <View style={styles.chip}>
+    <Text style={styles.label} numberOfLines={1}>{label}</Text>
+    {onRemove && (
+      <TouchableOpacity
+        onPress={onRemove}
+        style={styles.removeButton}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <View style={[styles.removeLine, styles.removeLine1]} />
+        <View style={[styles.removeLine, styles.removeLine2]} />
+      </TouchableOpacity>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: THEME.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: THEME.accent,
+  },
+  label: {
+    fontSize: 12,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  removeButton: {
+    width: 12,
+    height: 12,
+    marginLeft: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeLine: {
+    position: 'absolute',
+    width: 10,
+    height: 2,
+    backgroundColor: THEME.textSecondary,
+    borderRadius: 1,
+  },
+  removeLine1: {
+    transform: [{ rotate: '45deg' }],
+  },
+  removeLine2: {
+    transform: [{ rotate: '-45deg' }],
+  },
+});
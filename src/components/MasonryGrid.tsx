@@ -12,6 +12,7 @@ import {
   StyleSheet,
   Text,
   ListRenderItem,
+  ActivityIndicator,
 } from 'react-native';
 import { FileCardCompact } from './FileCard';
 import { THEME } from '../constants/config';
@@ -20,9 +21,12 @@ import type { FileRecord, SearchResult } from '../types';
 interface MasonryGridProps {
   data: (FileRecord | SearchResult)[];
   onItemPress?: (item: FileRecord | SearchResult) => void;
+  onItemLongPress?: (item: FileRecord | SearchResult) => void;
   showSimilarity?: boolean;
   emptyMessage?: string;
   ListHeaderComponent?: React.ReactElement;
+  onEndReached?: () => void;
+  isLoadingMore?: boolean;
 }
 
 const CARD_GAP = 8;
@@ -30,9 +34,12 @@ const CARD_GAP = 8;
 export const MasonryGrid: React.FC<MasonryGridProps> = ({
   data,
   onItemPress,
+  onItemLongPress,
   showSimilarity = false,
   emptyMessage = 'No files found',
   ListHeaderComponent,
+  onEndReached,
+  isLoadingMore = false,
 }) => {
   const renderItem: ListRenderItem<FileRecord | SearchResult> = useCallback(
     ({ item, index }) => (
@@ -43,11 +50,12 @@ export const MasonryGrid: React.FC<MasonryGridProps> = ({
         <FileCardCompact
           item={item}
           onPress={onItemPress}
+          onLongPress={onItemLongPress}
           showSimilarity={showSimilarity}
         />
       </View>
     ),
-    [onItemPress, showSimilarity]
+    [onItemPress, onItemLongPress, showSimilarity]
   );
 
   const keyExtractor = useCallback(
@@ -64,6 +72,12 @@ export const MasonryGrid: React.FC<MasonryGridProps> = ({
     [emptyMessage]
   );
 
+  const ListFooterComponent = isLoadingMore ? (
+    <View style={styles.footer}>
+      <ActivityIndicator size="small" color={THEME.accent} />
+    </View>
+  ) : null;
+
   return (
     <FlatList
       data={data}
@@ -74,6 +88,9 @@ export const MasonryGrid: React.FC<MasonryGridProps> = ({
       showsVerticalScrollIndicator={false}
       ListEmptyComponent={ListEmptyComponent}
       ListHeaderComponent={ListHeaderComponent}
+      ListFooterComponent={ListFooterComponent}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
       columnWrapperStyle={styles.row}
       removeClippedSubviews={true}
       maxToRenderPerBatch={10}
@@ -103,6 +120,10 @@ const styles = StyleSheet.create({
   itemRight: {
     marginLeft: CARD_GAP / 2,
   },
+  footer: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,151 @@
+/**
+ * MatchBreakdown Component
+ *
+ * Explains why a search result matched with:
+ * - Meaning (semantic) and keyword scores
+ * - The query terms that were found
+ * - Caption and filename with those terms highlighted
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextStyle,
+} from 'react-native';
+import { THEME } from '../constants/config';
+import { findTermRanges } from '../services/QueryParser';
+import type { QueryTerm, SearchResult } from '../types';
+
+interface MatchBreakdownProps {
+  result: SearchResult;
+}
+
+const formatTerm = (term: QueryTerm): string =>
+  term.phrase ? `"${term.text}"` : term.prefix ? `${term.text}*` : term.text;
+
+const HighlightedText: React.FC<{ text: string; terms: QueryTerm[]; style: TextStyle }> = ({
+  text,
+  terms,
+  style,
+}) => {
+  const ranges = findTermRanges(terms, text);
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <Text key={start} style={styles.highlight}>{text.slice(start, end)}</Text>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <Text style={style}>{parts}</Text>;
+};
+
+const ScoreRow: React.FC<{ label: string; score: number }> = ({ label, score }) => (
+  <View style={styles.scoreRow}>
+    <Text style={styles.scoreLabel}>{label}</Text>
+    <View style={styles.scoreTrack}>
+      <View style={[styles.scoreFill, { width: `${Math.round(score * 100)}%` }]} />
+    </View>
+    <Text style={styles.scoreValue}>{Math.round(score * 100)}%</Text>
+  </View>
+);
+
+export const MatchBreakdown: React.FC<MatchBreakdownProps> = ({ result }) => {
+  const { semanticScore, keywordScore, matchedTerms } = result.match;
+  const filtersOnly = semanticScore === 0 && keywordScore === 0 && matchedTerms.length === 0;
+
+  return (
+    <View>
+      <Text style={styles.sectionTitle}>WHY IT MATCHED</Text>
+      {filtersOnly ? (
+        <Text style={styles.note}>Matched the search filters</Text>
+      ) : (
+        <>
+          <ScoreRow label="Meaning" score={semanticScore} />
+          <ScoreRow label="Keywords" score={keywordScore} />
+          <Text style={styles.note}>
+            {matchedTerms.length > 0
+              ? `Found: ${matchedTerms.map(formatTerm).join(', ')}`
+              : 'No query words in caption or filename'}
+          </Text>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>CAPTION</Text>
+      {result.caption ? (
+        <HighlightedText text={result.caption} terms={matchedTerms} style={styles.body} />
+      ) : (
+        <Text style={styles.note}>No caption</Text>
+      )}
+
+      <Text style={styles.sectionTitle}>FILENAME</Text>
+      <HighlightedText text={result.filename} terms={matchedTerms} style={styles.body} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: THEME.textMuted,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  scoreLabel: {
+    width: 80,
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  scoreTrack: {
+    flex: 1,
+    height: 4,
+    backgroundColor: THEME.border,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: '100%',
+    backgroundColor: THEME.accent,
+  },
+  scoreValue: {
+    width: 44,
+    textAlign: 'right',
+    fontSize: 12,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  note: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  highlight: {
+    color: THEME.background,
+    backgroundColor: THEME.warning,
+  },
+});
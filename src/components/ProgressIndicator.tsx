@@ -33,9 +33,11 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   const dot4Anim = useRef(new Animated.Value(0)).current;
   const dot5Anim = useRef(new Animated.Value(0)).current;
 
+  const isActive = !['idle', 'complete', 'error', 'paused'].includes(progress.phase);
+
   // Bouncing dots animation
   useEffect(() => {
-    if (progress.phase !== 'idle' && progress.phase !== 'complete' && progress.phase !== 'error') {
+    if (isActive) {
       const createBounce = (anim: Animated.Value, delay: number) => {
         return Animated.loop(
           Animated.sequence([
@@ -78,7 +80,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
         anim5.stop();
       };
     }
-  }, [progress.phase, dot1Anim, dot2Anim, dot3Anim, dot4Anim, dot5Anim]);
+  }, [isActive, dot1Anim, dot2Anim, dot3Anim, dot4Anim, dot5Anim]);
 
   const createTranslateY = (anim: Animated.Value) => {
     return anim.interpolate({
@@ -91,8 +93,6 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   const isDownloadPhase = progress.phase === 'loading_vision' || 
                           progress.phase === 'loading_embedding';
 
-  const isActive = progress.phase !== 'idle' && progress.phase !== 'complete' && progress.phase !== 'error';
-
   return (
     <View style={styles.container}>
       {/* Percentage Display */}
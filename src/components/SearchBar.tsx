@@ -6,6 +6,7 @@
  * - Red accent on focus
  * - Clear button
  * - Loading indicator during search
+ * - Suggestions (recent queries, completions) while focused
  */
 
 import React, { useState, useCallback } from 'react';
@@ -16,8 +17,10 @@ import {
   StyleSheet,
   Animated,
   ActivityIndicator,
+  Text,
 } from 'react-native';
 import { THEME } from '../constants/config';
+import type { SearchSuggestion } from '../types';
 
 interface SearchBarProps {
   value: string;
@@ -25,6 +28,11 @@ interface SearchBarProps {
   onClear: () => void;
   isSearching: boolean;
   placeholder?: string;
+  suggestions?: SearchSuggestion[];
+  onFocus?: () => void;
+  onSubmit?: () => void;
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
+  onDeleteSuggestion?: (suggestion: SearchSuggestion) => void;
 }
 
 export const SearchBar: React.FC<SearchBarProps> = ({
@@ -33,18 +41,24 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onClear,
   isSearching,
   placeholder = 'Search your memories...',
+  suggestions = [],
+  onFocus,
+  onSubmit,
+  onSelectSuggestion,
+  onDeleteSuggestion,
 }) => {
   const [isFocused, setIsFocused] = useState(false);
   const borderColor = new Animated.Value(0);
 
   const handleFocus = useCallback(() => {
     setIsFocused(true);
+    onFocus?.();
     Animated.timing(borderColor, {
       toValue: 1,
       duration: 200,
       useNativeDriver: false,
     }).start();
-  }, []);
+  }, [onFocus]);
 
   const handleBlur = useCallback(() => {
     setIsFocused(false);
@@ -60,48 +74,82 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     outputRange: [THEME.border, THEME.accent],
   });
 
+  const showSuggestions = isFocused && suggestions.length > 0;
+
   return (
-    <Animated.View
-      style={[
-        styles.container,
-        { borderColor: animatedBorderColor },
-      ]}
-    >
-      {/* Search Icon */}
-      <View style={styles.iconContainer}>
-        <SearchIcon focused={isFocused} />
-      </View>
+    <View>
+      <Animated.View
+        style={[
+          styles.container,
+          { borderColor: animatedBorderColor },
+        ]}
+      >
+        {/* Search Icon */}
+        <View style={styles.iconContainer}>
+          <SearchIcon focused={isFocused} />
+        </View>
+
+        {/* Input */}
+        <TextInput
+          style={styles.input}
+          value={value}
+          onChangeText={onChangeText}
+          placeholder={placeholder}
+          placeholderTextColor={THEME.textMuted}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+          onSubmitEditing={onSubmit}
+          selectionColor={THEME.accent}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
 
-      {/* Input */}
-      <TextInput
-        style={styles.input}
-        value={value}
-        onChangeText={onChangeText}
-        placeholder={placeholder}
-        placeholderTextColor={THEME.textMuted}
-        onFocus={handleFocus}
-        onBlur={handleBlur}
-        selectionColor={THEME.accent}
-        autoCapitalize="none"
-        autoCorrect={false}
-        returnKeyType="search"
-      />
+        {/* Right side: Loading or Clear */}
+        <View style={styles.rightContainer}>
+          {isSearching ? (
+            <ActivityIndicator size="small" color={THEME.accent} />
+          ) : value.length > 0 ? (
+            <TouchableOpacity
+              onPress={onClear}
+              style={styles.clearButton}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ClearIcon />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </Animated.View>
 
-      {/* Right side: Loading or Clear */}
-      <View style={styles.rightContainer}>
-        {isSearching ? (
-          <ActivityIndicator size="small" color={THEME.accent} />
-        ) : value.length > 0 ? (
-          <TouchableOpacity
-            onPress={onClear}
-            style={styles.clearButton}
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-          >
-            <ClearIcon />
-          </TouchableOpacity>
-        ) : null}
-      </View>
-    </Animated.View>
+      {/* Suggestions */}
+      {showSuggestions && (
+        <View style={styles.suggestions}>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={`${suggestion.source}-${suggestion.text}`}
+              style={styles.suggestionRow}
+              onPress={() => onSelectSuggestion?.(suggestion)}
+            >
+              <Text style={styles.suggestionKind}>
+                {suggestion.source === 'history' ? 'RECENT' : 'WORD'}
+              </Text>
+              <Text style={styles.suggestionText} numberOfLines={1}>
+                {suggestion.text}
+              </Text>
+              {suggestion.source === 'history' && onDeleteSuggestion && (
+                <TouchableOpacity
+                  onPress={() => onDeleteSuggestion(suggestion)}
+                  style={styles.clearButton}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <ClearIcon />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
   );
 };
 
@@ -163,6 +211,32 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  suggestions: {
+    marginTop: 4,
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    paddingVertical: 4,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  suggestionKind: {
+    width: 56,
+    fontSize: 10,
+    color: THEME.textMuted,
+    fontFamily: 'monospace',
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 14,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
   // Search Icon Styles
   searchIcon: {
     width: 20,
@@ -0,0 +1,85 @@
+/**
+ * SmartAlbums Component
+ *
+ * Horizontal row of saved searches with:
+ * - Tap to open (the query runs again on the current index)
+ * - Long press for album actions
+ * - Highlight for the album being viewed
+ */
+
+import React from 'react';
+import {
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { THEME } from '../constants/config';
+import type { SavedSearch } from '../types';
+
+interface SmartAlbumsProps {
+  albums: SavedSearch[];
+  activeId: number | null;
+  onOpen: (album: SavedSearch) => void;
+  onLongPress: (album: SavedSearch) => void;
+}
+
+export const SmartAlbums: React.FC<SmartAlbumsProps> = ({
+  albums,
+  activeId,
+  onOpen,
+  onLongPress,
+}) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    contentContainerStyle={styles.container}
+  >
+    {albums.map(album => {
+      const isActive = album.id === activeId;
+      return (
+        <TouchableOpacity
+          key={album.id}
+          style={[styles.album, isActive && styles.albumActive]}
+          onPress={() => onOpen(album)}
+          onLongPress={() => onLongPress(album)}
+        >
+          <Text
+            style={[styles.albumName, isActive && styles.albumNameActive]}
+            numberOfLines={1}
+          >
+            {album.name}
+          </Text>
+        </TouchableOpacity>
+      );
+    })}
+  </ScrollView>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  album: {
+    maxWidth: 180,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: THEME.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  albumActive: {
+    borderColor: THEME.accent,
+  },
+  albumName: {
+    fontSize: 13,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  albumNameActive: {
+    color: THEME.text,
+  },
+});
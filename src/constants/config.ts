@@ -66,12 +66,60 @@ export const COOL_DOWN_MODEL_SWITCH_MS = 5000; // 5s between model load/unload
 export const MAX_FILES = 50;
 export const MIN_FILES = 1;
 export const PDF_MAX_CHARS = 4000;  // Max characters to extract from PDF for caption
+
+// Recorded as a file's caption_model when no vision model wrote the caption
+export const CAPTION_SOURCE_PDF_TEXT = 'pdf-text';  // Text layer extracted from the PDF
+export const CAPTION_SOURCE_FILENAME = 'filename';  // USE_VISION_MODEL off - caption built from the name
 export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/jpg'];
 export const SUPPORTED_PDF_TYPES = ['application/pdf'];
 
+// Managed library of indexed files (copied out of the picker's cache)
+export const LIBRARY_DIR = 'library';
+
+// Thumbnails (stored under the app documents directory)
+export const THUMBNAIL_DIR = 'thumbnails';
+export const THUMBNAIL_SIZE = 320;    // Max width/height - roughly 2x a grid cell
+export const THUMBNAIL_QUALITY = 70;  // JPEG quality (0-100)
+
 // Search Configuration
-export const SEARCH_RESULTS_LIMIT = 10;
+export const SEARCH_RESULTS_LIMIT = 10;    // Results per page
+export const SEARCH_CANDIDATE_LIMIT = 50;  // KNN / keyword candidates fetched before rank fusion
+export const SEARCH_MAX_CANDIDATES = 1000; // Upper bound when paging deep into results (sqlite-vec caps k at 4096)
 export const SEARCH_DEBOUNCE_MS = 300;
+export const RRF_K = 60;  // Reciprocal rank fusion damping - higher flattens rank differences
+export const SEMANTIC_SIMILARITY_FLOOR = 0.35;    // Cosine similarity shown as 0% relevant
+export const SEMANTIC_SIMILARITY_CEILING = 0.75;  // Cosine similarity shown as 100% relevant
+export const SEARCH_MIN_RELEVANCE = 0.2;  // Results below this calibrated relevance are hidden
+
+// Automatic tags - each label's description is embedded once and compared with file vectors.
+// Names are single lowercase words (they're typed as is:<name> in the search box).
+// Changing this list re-tags every memory the next time the embedding model is loaded.
+export interface AutoTagLabel {
+  name: string;
+  description: string;     // what gets embedded - phrased like a caption would be
+  minSimilarity?: number;  // overrides AUTO_TAG_MIN_SIMILARITY
+}
+
+export const AUTO_TAG_MIN_SIMILARITY = 0.5;  // Cosine similarity a memory needs to get a label
+
+export const AUTO_TAG_LABELS: AutoTagLabel[] = [
+  { name: 'receipt', description: 'A printed shop or restaurant receipt listing items, prices and a total' },
+  { name: 'screenshot', description: 'A screenshot of a phone or computer screen showing an app, website or chat' },
+  { name: 'document', description: 'A document page with paragraphs of text, such as a letter, form or report' },
+  { name: 'food', description: 'A plate of food, a meal or a dish on a table' },
+  { name: 'pet', description: 'A pet animal such as a dog or cat' },
+  { name: 'landscape', description: 'An outdoor landscape with sky, mountains, fields, trees or the sea' },
+  { name: 'people', description: 'A photo of people, a person or a group of friends or family' },
+  { name: 'whiteboard', description: 'A whiteboard with handwritten notes, diagrams or drawings' },
+];
+
+// Query embedding cache
+export const QUERY_CACHE_MEMORY_SIZE = 50;  // Embeddings kept in memory (LRU)
+export const QUERY_CACHE_MAX_ROWS = 500;    // Embeddings kept in the database
+
+// Search history and suggestions
+export const SEARCH_HISTORY_LIMIT = 100;      // Past queries kept
+export const SEARCH_SUGGESTIONS_LIMIT = 8;    // Suggestions shown under the search bar
 
 // Database
 export const DB_NAME = 'recall.db';
@@ -5,25 +5,47 @@
  * - Indexing progress
  * - Search functionality
  * - File management
+ * - Notes and tags (yours and automatic ones)
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { CactusLM } from 'cactus-react-native';
 import { getMemoryEngine, MemoryEngine } from '../services/MemoryEngine';
-import { pickFiles, validateFiles, getFileStats } from '../services/FileProcessor';
+import { pickFiles, pickImage, validateFiles, getFileStats } from '../services/FileProcessor';
+import { parseSearchQuery } from '../services/QueryParser';
 import { SEARCH_DEBOUNCE_MS, DEFAULT_VISION_MODEL, VISION_MODELS } from '../constants/config';
 import type {
   SelectedFile,
   FileRecord,
+  FileDetails,
   SearchResult,
+  SearchPage,
+  SearchPagination,
+  DateRange,
+  DocumentQuery,
+  ImageQuery,
+  SearchSuggestion,
+  SavedSearch,
+  Tag,
+  AutoTag,
   ProcessingProgress,
   EngineState,
+  IndexingSummary,
 } from '../types';
 
 interface UseMemoryEngineReturn {
   // State
   state: EngineState;
   searchResults: SearchResult[];
+  searchPagination: SearchPagination;
+  searchDateRange: DateRange | null;
+  searchDocumentQuery: DocumentQuery | null;
+  similarTo: FileRecord | null;
+  imageQuery: ImageQuery | null;
+  searchSuggestions: SearchSuggestion[];
+  savedSearches: SavedSearch[];
+  allTags: Tag[];
+  autoTags: AutoTag[];
   allFiles: FileRecord[];
   selectedFiles: SelectedFile[];
   availableVisionModels: typeof VISION_MODELS;
@@ -32,10 +54,35 @@ interface UseMemoryEngineReturn {
   selectFiles: () => Promise<void>;
   clearSelection: () => void;
   startIndexing: () => Promise<void>;
+  resumeIndexing: () => Promise<void>;
+  discardResumableJob: () => Promise<void>;
+  retryFailedFiles: () => Promise<void>;
+  pauseIndexing: () => void;
+  continueIndexing: () => void;
+  cancelIndexing: () => void;
   search: (query: string) => Promise<void>;
+  loadMoreResults: () => Promise<void>;
+  dismissDateRange: () => void;
+  dismissDocumentQuery: () => void;
+  findSimilar: (file: FileRecord) => Promise<void>;
+  searchByImage: () => Promise<void>;
+  loadSuggestions: (text: string) => Promise<void>;
+  recordSearch: (query: string) => Promise<void>;
+  deleteSearchHistoryEntry: (query: string) => Promise<void>;
+  saveCurrentSearch: (name: string) => Promise<void>;
+  openSavedSearch: (saved: SavedSearch) => Promise<void>;
+  deleteSavedSearch: (id: number) => Promise<void>;
   clearSearch: () => void;
   refreshFiles: () => Promise<void>;
   clearAllData: () => Promise<void>;
+  deleteFiles: (ids: number[]) => Promise<void>;
+  getFileDetails: (id: number) => Promise<FileDetails | null>;
+  recaptionFile: (id: number, overwriteEdited?: boolean) => Promise<FileDetails | null>;
+  updateCaption: (id: number, caption: string) => Promise<FileDetails | null>;
+  setNote: (id: number, note: string) => Promise<FileDetails | null>;
+  addTag: (id: number, name: string) => Promise<FileDetails | null>;
+  removeTag: (id: number, name: string) => Promise<FileDetails | null>;
+  deleteTag: (tagId: number) => Promise<void>;
   setVisionModel: (modelSlug: string) => void;
 }
 
@@ -47,6 +94,30 @@ const initialProgress: ProcessingProgress = {
   percentage: 0,
 };
 
+const initialPagination: SearchPagination = {
+  total: 0,
+  totalIsEstimate: false,
+  hasMore: false,
+  isLoadingMore: false,
+};
+
+// A dismissed chip only covers the words it was parsed from - once the query
+// no longer has all of them, date or document words get their own chip again
+const stillDismissed = (text: string | null, query: string): string | null => {
+  if (!text) return null;
+  const queryWords = new Set(query.toLowerCase().split(/\s+/));
+  return text.toLowerCase().split(/\s+/).filter(Boolean).every(word => queryWords.has(word))
+    ? text
+    : null;
+};
+
+const toPagination = (page: SearchPage, loaded: number): SearchPagination => ({
+  total: Math.max(page.total, loaded),
+  totalIsEstimate: page.totalIsEstimate,
+  hasMore: loaded < page.total || page.totalIsEstimate,
+  isLoadingMore: false,
+});
+
 const initialState: EngineState = {
   isInitialized: false,
   isIndexing: false,
@@ -57,14 +128,37 @@ const initialState: EngineState = {
   error: null,
   totalIndexedFiles: 0,
   selectedVisionModel: DEFAULT_VISION_MODEL,
+  lastIndexingSummary: null,
+  resumableJob: null,
 };
 
 export const useMemoryEngine = (): UseMemoryEngineReturn => {
   const engineRef = useRef<MemoryEngine | null>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const searchQueryRef = useRef('');
+  // Words of a date chip the user removed - they are searched as text while the query has them
+  const dismissedDateTextRef = useRef<string | null>(null);
+  // Same for the document chip ("invoices over 500")
+  const dismissedDocumentTextRef = useRef<string | null>(null);
+  // File a "more like this" search started from (null for text searches)
+  const similarToRef = useRef<FileRecord | null>(null);
+  // Caption of the example image being searched with (null for other searches)
+  const imageCaptionRef = useRef<string | null>(null);
+  // Bumped for every new search so late results from an older one are dropped
+  const searchIdRef = useRef(0);
+  const suggestionsRequestRef = useRef(0);
   
   const [state, setState] = useState<EngineState>(initialState);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchPagination, setSearchPagination] = useState<SearchPagination>(initialPagination);
+  const [searchDateRange, setSearchDateRange] = useState<DateRange | null>(null);
+  const [searchDocumentQuery, setSearchDocumentQuery] = useState<DocumentQuery | null>(null);
+  const [similarTo, setSimilarTo] = useState<FileRecord | null>(null);
+  const [imageQuery, setImageQuery] = useState<ImageQuery | null>(null);
+  const [searchSuggestions, setSearchSuggestions] = useState<SearchSuggestion[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [autoTags, setAutoTags] = useState<AutoTag[]>([]);
   const [allFiles, setAllFiles] = useState<FileRecord[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
 
@@ -99,17 +193,35 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
 
         // Get initial file count
         const count = await engineRef.current.getFileCount();
+
+        // Check for a job interrupted by the app being killed
+        const resumableJob = await engineRef.current.getResumableJob();
         
         setState(prev => ({
           ...prev,
           isInitialized: true,
           totalIndexedFiles: count,
+          resumableJob,
         }));
 
         // Load all files
         const files = await engineRef.current.getAllFiles();
         setAllFiles(files);
 
+        setSavedSearches(await engineRef.current.getSavedSearches());
+        setAllTags(await engineRef.current.getAllTags());
+        setAutoTags(await engineRef.current.getAutoTags());
+
+        // Re-tag in the background if the label vocabulary changed since last launch
+        const engine = engineRef.current;
+        engine.refreshAutoTags()
+          .then(async retagged => {
+            if (retagged) {
+              setAutoTags(await engine.getAutoTags());
+            }
+          })
+          .catch(error => console.warn('[useMemoryEngine] Re-tagging failed:', error));
+
       } catch (error) {
         console.error('[useMemoryEngine] Initialization failed:', error);
         setState(prev => ({
@@ -172,10 +284,12 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
   }, []);
 
   /**
-   * Start indexing selected files
+   * Run an indexing operation and sync UI state with its outcome
    */
-  const startIndexing = useCallback(async () => {
-    if (!engineRef.current || selectedFiles.length === 0) {
+  const runIndexing = useCallback(async (
+    operation: (engine: MemoryEngine) => Promise<IndexingSummary>
+  ) => {
+    if (!engineRef.current) {
       return;
     }
 
@@ -184,6 +298,7 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
         ...prev,
         isIndexing: true,
         error: null,
+        lastIndexingSummary: null,
         progress: {
           ...initialProgress,
           phase: 'selecting',
@@ -191,24 +306,28 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
         },
       }));
 
-      await engineRef.current.indexFiles(selectedFiles);
+      const summary = await operation(engineRef.current);
 
       // Refresh file list after indexing
       const files = await engineRef.current.getAllFiles();
       const count = await engineRef.current.getFileCount();
+      const resumableJob = await engineRef.current.getResumableJob();
       
       setAllFiles(files);
       setSelectedFiles([]);
+      setAutoTags(await engineRef.current.getAutoTags());
       
       setState(prev => ({
         ...prev,
         isIndexing: false,
         totalIndexedFiles: count,
+        lastIndexingSummary: summary,
+        resumableJob,
         progress: {
           phase: 'complete',
-          current: selectedFiles.length,
-          total: selectedFiles.length,
-          message: 'Indexing complete!',
+          current: summary.total,
+          total: summary.total,
+          message: summary.cancelled ? 'Indexing cancelled' : 'Indexing complete!',
           percentage: 100,
         },
       }));
@@ -216,10 +335,13 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
     } catch (err) {
       console.error('[useMemoryEngine] Indexing failed:', err);
       const errorMessage = err instanceof Error ? err.message : String(err);
+      // The interrupted job stays in the queue and can be resumed
+      const resumableJob = await engineRef.current.getResumableJob();
       setState(prev => ({
         ...prev,
         isIndexing: false,
         error: errorMessage,
+        resumableJob,
         progress: {
           phase: 'error',
           current: 0,
@@ -229,7 +351,81 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
         },
       }));
     }
-  }, [selectedFiles]);
+  }, []);
+
+  /**
+   * Start indexing selected files
+   */
+  const startIndexing = useCallback(async () => {
+    if (selectedFiles.length === 0) {
+      return;
+    }
+
+    await runIndexing(engine => engine.indexFiles(selectedFiles));
+  }, [selectedFiles, runIndexing]);
+
+  /**
+   * Resume the unfinished indexing job from a previous session
+   */
+  const resumeIndexing = useCallback(async () => {
+    const job = state.resumableJob;
+    if (!job) {
+      return;
+    }
+
+    await runIndexing(engine => engine.resumeIndexing(job.id));
+  }, [state.resumableJob, runIndexing]);
+
+  /**
+   * Retry only the files that failed in the last indexing run
+   */
+  const retryFailedFiles = useCallback(async () => {
+    const jobId = state.lastIndexingSummary?.jobId;
+    if (!jobId) {
+      return;
+    }
+
+    await runIndexing(engine => engine.retryFailedFiles(jobId));
+  }, [state.lastIndexingSummary, runIndexing]);
+
+  /**
+   * Throw away the unfinished indexing job
+   */
+  const discardResumableJob = useCallback(async () => {
+    if (!engineRef.current || !state.resumableJob) return;
+
+    try {
+      await engineRef.current.discardJob(state.resumableJob.id);
+      setState(prev => ({ ...prev, resumableJob: null }));
+    } catch (error) {
+      console.error('[useMemoryEngine] Discard job failed:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+    }
+  }, [state.resumableJob]);
+
+  /**
+   * Pause the running indexing job between files
+   */
+  const pauseIndexing = useCallback(() => {
+    engineRef.current?.pauseIndexing();
+  }, []);
+
+  /**
+   * Continue a paused indexing job
+   */
+  const continueIndexing = useCallback(() => {
+    engineRef.current?.continueIndexing();
+  }, []);
+
+  /**
+   * Cancel the running indexing job (finished files are kept)
+   */
+  const cancelIndexing = useCallback(() => {
+    engineRef.current?.cancelIndexing();
+  }, []);
 
   /**
    * Search for files (debounced)
@@ -240,26 +436,61 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
       clearTimeout(searchTimeoutRef.current);
     }
 
+    searchQueryRef.current = query;
+    similarToRef.current = null;
+    imageCaptionRef.current = null;
+    const searchId = ++searchIdRef.current;
+    setSimilarTo(null);
+    setImageQuery(null);
+
     if (!query.trim()) {
+      dismissedDateTextRef.current = null;
+      dismissedDocumentTextRef.current = null;
       setSearchResults([]);
+      setSearchPagination(initialPagination);
+      setSearchDateRange(null);
+      setSearchDocumentQuery(null);
       setState(prev => ({ ...prev, isSearching: false }));
       return;
     }
 
+    dismissedDateTextRef.current = stillDismissed(dismissedDateTextRef.current, query);
+    dismissedDocumentTextRef.current = stillDismissed(dismissedDocumentTextRef.current, query);
+
     // Clear previous results and show loading immediately
     setSearchResults([]);
+    setSearchPagination(initialPagination);
     setState(prev => ({ ...prev, isSearching: true }));
 
-    // Debounce the search
+    // Debounce the search - unless it's a repeat that won't need the embedding model
+    const debounceMs = engineRef.current?.isQueryCached(
+      query,
+      dismissedDateTextRef.current === null,
+      dismissedDocumentTextRef.current === null
+    )
+      ? 0
+      : SEARCH_DEBOUNCE_MS;
     searchTimeoutRef.current = setTimeout(async () => {
       try {
         if (!engineRef.current) return;
         
-        const results = await engineRef.current.search(query);
-        setSearchResults(results);
+        const page = await engineRef.current.search(query, {
+          parseDates: dismissedDateTextRef.current === null,
+          parseDocuments: dismissedDocumentTextRef.current === null,
+        });
+
+        // Another search started while this one was running
+        if (searchIdRef.current !== searchId) return;
+
+        setSearchResults(page.results);
+        setSearchDateRange(page.dateRange);
+        setSearchDocumentQuery(page.documentQuery);
+        setSearchPagination(toPagination(page, page.results.length));
         
         setState(prev => ({ ...prev, isSearching: false }));
       } catch (error) {
+        if (searchIdRef.current !== searchId) return;
+
         console.error('[useMemoryEngine] Search failed:', error);
         setState(prev => ({
           ...prev,
@@ -267,7 +498,265 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
           error: String(error),
         }));
       }
-    }, SEARCH_DEBOUNCE_MS);
+    }, debounceMs);
+  }, []);
+
+  /**
+   * Show memories similar to an indexed file ("more like this")
+   */
+  const findSimilar = useCallback(async (file: FileRecord) => {
+    if (!engineRef.current) return;
+
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    searchQueryRef.current = '';
+    dismissedDateTextRef.current = null;
+    dismissedDocumentTextRef.current = null;
+    similarToRef.current = file;
+    imageCaptionRef.current = null;
+    const searchId = ++searchIdRef.current;
+
+    setSimilarTo(file);
+    setImageQuery(null);
+    setSearchResults([]);
+    setSearchPagination(initialPagination);
+    setSearchDateRange(null);
+    setSearchDocumentQuery(null);
+    setState(prev => ({ ...prev, isSearching: true }));
+
+    try {
+      const page = await engineRef.current.findSimilar(file.id);
+
+      // Another search started while this one was running
+      if (searchIdRef.current !== searchId) return;
+
+      setSearchResults(page.results);
+      setSearchPagination(toPagination(page, page.results.length));
+      setState(prev => ({ ...prev, isSearching: false }));
+    } catch (error) {
+      if (searchIdRef.current !== searchId) return;
+
+      console.error('[useMemoryEngine] Similar search failed:', error);
+      setState(prev => ({
+        ...prev,
+        isSearching: false,
+        error: String(error),
+      }));
+    }
+  }, []);
+
+  /**
+   * Pick an image from the device and find memories that look like it
+   */
+  const searchByImage = useCallback(async () => {
+    if (!engineRef.current) return;
+
+    // Set once the search starts (picking the image can fail first)
+    let searchId: number | null = null;
+    try {
+      const image = await pickImage();
+      if (!image) return;
+
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+      searchQueryRef.current = '';
+      dismissedDateTextRef.current = null;
+      dismissedDocumentTextRef.current = null;
+      similarToRef.current = null;
+      imageCaptionRef.current = null;
+      searchId = ++searchIdRef.current;
+
+      setSimilarTo(null);
+      setImageQuery({ filename: image.name, caption: null });
+      setSearchResults([]);
+      setSearchPagination(initialPagination);
+      setSearchDateRange(null);
+      setSearchDocumentQuery(null);
+      setState(prev => ({ ...prev, isSearching: true, error: null }));
+
+      const page = await engineRef.current.searchByImage(image);
+
+      // Another search started while the image was being analyzed
+      if (searchIdRef.current !== searchId) return;
+
+      imageCaptionRef.current = page.queryCaption;
+      setImageQuery({ filename: image.name, caption: page.queryCaption });
+      setSearchResults(page.results);
+      setSearchPagination(toPagination(page, page.results.length));
+      setState(prev => ({ ...prev, isSearching: false }));
+    } catch (error) {
+      // Replaced by a newer search - that one owns the results now
+      if (searchId !== null && searchIdRef.current !== searchId) return;
+
+      console.error('[useMemoryEngine] Image search failed:', error);
+      setImageQuery(null);
+      setState(prev => ({
+        ...prev,
+        isSearching: false,
+        error: String(error),
+      }));
+    }
+  }, []);
+
+  /**
+   * Load the next page of results for the current query, "more like this" file or example image
+   */
+  const loadMoreResults = useCallback(async () => {
+    const query = searchQueryRef.current;
+    const similarFile = similarToRef.current;
+    const imageCaption = imageCaptionRef.current;
+    if (!engineRef.current || (!query.trim() && !similarFile && !imageCaption)) return;
+    if (!searchPagination.hasMore || searchPagination.isLoadingMore || state.isSearching) return;
+
+    setSearchPagination(prev => ({ ...prev, isLoadingMore: true }));
+
+    try {
+      const offset = searchResults.length;
+      const searchId = searchIdRef.current;
+      const page = similarFile
+        ? await engineRef.current.findSimilar(similarFile.id, { offset })
+        : imageCaption
+          // Later pages search the caption again - no need to re-run the vision model
+          ? await engineRef.current.search(imageCaption, { offset, plainText: true })
+          : await engineRef.current.search(query, {
+            offset,
+            parseDates: dismissedDateTextRef.current === null,
+            parseDocuments: dismissedDocumentTextRef.current === null,
+          });
+
+      // The user started a different search while this page was loading
+      if (searchIdRef.current !== searchId) return;
+
+      // Pages keep their order, but the library can change between them - skip repeats
+      const seen = new Set(searchResults.map(r => r.id));
+      const fresh = page.results.filter(r => !seen.has(r.id));
+      const loaded = searchResults.length + fresh.length;
+
+      setSearchResults([...searchResults, ...fresh]);
+      setSearchPagination({
+        ...toPagination(page, loaded),
+        hasMore: fresh.length > 0 && (loaded < page.total || page.totalIsEstimate),
+      });
+    } catch (error) {
+      console.error('[useMemoryEngine] Loading more results failed:', error);
+      setSearchPagination(prev => ({ ...prev, isLoadingMore: false }));
+    }
+  }, [searchResults, searchPagination, state.isSearching]);
+
+  /**
+   * Drop the date range parsed from the query and search its words as plain text
+   */
+  const dismissDateRange = useCallback(() => {
+    dismissedDateTextRef.current = searchDateRange?.text ?? null;
+    setSearchDateRange(null);
+    search(searchQueryRef.current);
+  }, [search, searchDateRange]);
+
+  /**
+   * Drop the document filters parsed from the query and search its words as plain text
+   */
+  const dismissDocumentQuery = useCallback(() => {
+    dismissedDocumentTextRef.current = searchDocumentQuery?.text ?? null;
+    setSearchDocumentQuery(null);
+    search(searchQueryRef.current);
+  }, [search, searchDocumentQuery]);
+
+  /**
+   * Load search bar suggestions for the current text
+   */
+  const loadSuggestions = useCallback(async (text: string) => {
+    if (!engineRef.current) return;
+
+    const requestId = ++suggestionsRequestRef.current;
+    const suggestions = await engineRef.current.getSearchSuggestions(text);
+
+    // Only the latest keystroke's suggestions are shown
+    if (suggestionsRequestRef.current === requestId) {
+      setSearchSuggestions(suggestions);
+    }
+  }, []);
+
+  /**
+   * Add a query the user ran to search history
+   */
+  const recordSearch = useCallback(async (query: string) => {
+    await engineRef.current?.recordSearch(query);
+  }, []);
+
+  /**
+   * Remove a query from search history
+   */
+  const deleteSearchHistoryEntry = useCallback(async (query: string) => {
+    if (!engineRef.current) return;
+
+    try {
+      await engineRef.current.deleteSearchHistoryEntry(query);
+      setSearchSuggestions(prev =>
+        prev.filter(s => !(s.source === 'history' && s.text === query))
+      );
+    } catch (error) {
+      console.error('[useMemoryEngine] Failed to delete history entry:', error);
+    }
+  }, []);
+
+  /**
+   * Save the current text query (with its filters) as a smart album
+   */
+  const saveCurrentSearch = useCallback(async (name: string) => {
+    const query = searchQueryRef.current;
+    if (!engineRef.current || !query.trim()) return;
+
+    try {
+      const saved = await engineRef.current.saveSearch(
+        name,
+        query,
+        dismissedDateTextRef.current === null,
+        dismissedDocumentTextRef.current === null
+      );
+      setSavedSearches(prev => [
+        ...prev.filter(s => s.id !== saved.id),
+        saved,
+      ].sort((a, b) => a.createdAt - b.createdAt));
+    } catch (error) {
+      console.error('[useMemoryEngine] Failed to save search:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+    }
+  }, []);
+
+  /**
+   * Open a smart album - its query runs again against the current index
+   */
+  const openSavedSearch = useCallback(async (saved: SavedSearch) => {
+    // Find the words whose chip was dismissed before saving
+    const parsed = parseSearchQuery(saved.query);
+    dismissedDateTextRef.current = saved.parseDates ? null : parsed.dateRange?.text ?? null;
+    dismissedDocumentTextRef.current = saved.parseDocuments
+      ? null
+      : parsed.documentQuery?.text ?? null;
+    await search(saved.query);
+  }, [search]);
+
+  /**
+   * Remove a smart album
+   */
+  const deleteSavedSearch = useCallback(async (id: number) => {
+    if (!engineRef.current) return;
+
+    try {
+      await engineRef.current.deleteSavedSearch(id);
+      setSavedSearches(prev => prev.filter(s => s.id !== id));
+    } catch (error) {
+      console.error('[useMemoryEngine] Failed to delete saved search:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+    }
   }, []);
 
   /**
@@ -277,7 +766,18 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
     if (searchTimeoutRef.current) {
       clearTimeout(searchTimeoutRef.current);
     }
+    searchQueryRef.current = '';
+    dismissedDateTextRef.current = null;
+    dismissedDocumentTextRef.current = null;
+    similarToRef.current = null;
+    imageCaptionRef.current = null;
+    searchIdRef.current++;
+    setSimilarTo(null);
+    setImageQuery(null);
     setSearchResults([]);
+    setSearchPagination(initialPagination);
+    setSearchDateRange(null);
+    setSearchDocumentQuery(null);
     setState(prev => ({ ...prev, isSearching: false }));
   }, []);
 
@@ -308,9 +808,14 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
       await engineRef.current.clearAll();
       setAllFiles([]);
       setSearchResults([]);
+      setSearchPagination(initialPagination);
+      setSearchSuggestions([]);
+      setAllTags([]);
+      setAutoTags([]);
       setState(prev => ({
         ...prev,
         totalIndexedFiles: 0,
+        resumableJob: null,
         progress: initialProgress,
       }));
     } catch (error) {
@@ -322,6 +827,164 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
     }
   }, []);
 
+  /**
+   * Delete individual memories
+   */
+  const deleteFiles = useCallback(async (ids: number[]) => {
+    if (!engineRef.current) return;
+
+    try {
+      await engineRef.current.deleteFiles(ids);
+
+      const deleted = new Set(ids);
+      setSearchResults(prev => prev.filter(r => !deleted.has(r.id)));
+      setSearchPagination(prev => ({
+        ...prev,
+        total: Math.max(0, prev.total - ids.length),
+      }));
+
+      const files = await engineRef.current.getAllFiles();
+      const count = await engineRef.current.getFileCount();
+
+      setAllFiles(files);
+      setAutoTags(await engineRef.current.getAutoTags());
+      setState(prev => ({ ...prev, totalIndexedFiles: count }));
+    } catch (error) {
+      console.error('[useMemoryEngine] Delete failed:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+    }
+  }, []);
+
+  /**
+   * Load one memory for the detail screen
+   */
+  const getFileDetails = useCallback(async (id: number) => {
+    if (!engineRef.current) return null;
+
+    try {
+      return await engineRef.current.getFileDetails(id);
+    } catch (error) {
+      console.error('[useMemoryEngine] Failed to load file details:', error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Run a caption change and update the memory wherever it is listed
+   */
+  const changeCaption = useCallback(async (
+    id: number,
+    operation: (engine: MemoryEngine) => Promise<FileDetails>
+  ) => {
+    if (!engineRef.current) return null;
+
+    try {
+      setState(prev => ({ ...prev, error: null }));
+      const updated = await operation(engineRef.current);
+
+      setAllFiles(prev => prev.map(f => (f.id === id ? { ...f, caption: updated.caption } : f)));
+      setSearchResults(prev => prev.map(r => (r.id === id ? { ...r, caption: updated.caption } : r)));
+      // A new vector can change the automatic tags
+      setAutoTags(await engineRef.current.getAutoTags());
+      return updated;
+    } catch (error) {
+      console.error('[useMemoryEngine] Caption change failed:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+      return null;
+    }
+  }, []);
+
+  /**
+   * Caption a memory again with the vision model (or PDF text).
+   * A caption the user wrote is only replaced with overwriteEdited.
+   */
+  const recaptionFile = useCallback(
+    (id: number, overwriteEdited = false) =>
+      changeCaption(id, engine => engine.recaptionFile(id, { overwriteEdited })),
+    [changeCaption]
+  );
+
+  /**
+   * Save a caption written by the user (re-embeds the memory)
+   */
+  const updateCaption = useCallback(
+    (id: number, caption: string) => changeCaption(id, engine => engine.updateCaption(id, caption)),
+    [changeCaption]
+  );
+
+  /**
+   * Run a note or tag change, then refresh the tag lists
+   */
+  const annotate = useCallback(async (
+    operation: (engine: MemoryEngine) => Promise<FileDetails>
+  ) => {
+    if (!engineRef.current) return null;
+
+    try {
+      setState(prev => ({ ...prev, error: null }));
+      const updated = await operation(engineRef.current);
+      setAllTags(await engineRef.current.getAllTags());
+      setAutoTags(await engineRef.current.getAutoTags());
+      return updated;
+    } catch (error) {
+      console.error('[useMemoryEngine] Updating notes/tags failed:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+      return null;
+    }
+  }, []);
+
+  /**
+   * Save a memory's note (re-embeds the memory)
+   */
+  const setNote = useCallback(
+    (id: number, note: string) => annotate(engine => engine.setNote(id, note)),
+    [annotate]
+  );
+
+  /**
+   * Add a tag to a memory (re-embeds the memory)
+   */
+  const addTag = useCallback(
+    (id: number, name: string) => annotate(engine => engine.addTag(id, name)),
+    [annotate]
+  );
+
+  /**
+   * Remove a tag from a memory (re-embeds the memory)
+   */
+  const removeTag = useCallback(
+    (id: number, name: string) => annotate(engine => engine.removeTag(id, name)),
+    [annotate]
+  );
+
+  /**
+   * Delete a tag from every memory that has it
+   */
+  const deleteTag = useCallback(async (tagId: number) => {
+    if (!engineRef.current) return;
+
+    try {
+      await engineRef.current.deleteTag(tagId);
+      setAllTags(prev => prev.filter(t => t.id !== tagId));
+      setAutoTags(await engineRef.current.getAutoTags());
+    } catch (error) {
+      console.error('[useMemoryEngine] Delete tag failed:', error);
+      setState(prev => ({
+        ...prev,
+        error: String(error),
+      }));
+    }
+  }, []);
+
   /**
    * Set the vision model to use for indexing
    */
@@ -339,16 +1002,50 @@ export const useMemoryEngine = (): UseMemoryEngineReturn => {
   return {
     state,
     searchResults,
+    searchPagination,
+    searchDateRange,
+    searchDocumentQuery,
+    similarTo,
+    imageQuery,
+    searchSuggestions,
+    savedSearches,
+    allTags,
+    autoTags,
     allFiles,
     selectedFiles,
     availableVisionModels: VISION_MODELS,
     selectFiles,
     clearSelection,
     startIndexing,
+    resumeIndexing,
+    discardResumableJob,
+    retryFailedFiles,
+    pauseIndexing,
+    continueIndexing,
+    cancelIndexing,
     search,
+    loadMoreResults,
+    dismissDateRange,
+    dismissDocumentQuery,
+    findSimilar,
+    searchByImage,
+    loadSuggestions,
+    recordSearch,
+    deleteSearchHistoryEntry,
+    saveCurrentSearch,
+    openSavedSearch,
+    deleteSavedSearch,
     clearSearch,
     refreshFiles,
     clearAllData,
+    deleteFiles,
+    getFileDetails,
+    recaptionFile,
+    updateCaption,
+    setNote,
+    addTag,
+    removeTag,
+    deleteTag,
     setVisionModel,
   };
 };
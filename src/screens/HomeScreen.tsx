@@ -3,6 +3,7 @@
  * 
  * Main search interface with:
  * - Search bar at top
+ * - Smart albums and automatic tag filters
  * - Results grid or all files grid
  * - FAB for adding new files
  * - Nothing OS minimal aesthetic
@@ -20,52 +21,228 @@ import {
   Animated,
   Easing,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { SearchBar } from '../components/SearchBar';
 import { MasonryGrid } from '../components/MasonryGrid';
+import { FilterChip } from '../components/FilterChip';
+import { SmartAlbums } from '../components/SmartAlbums';
+import { AutoTagChips } from '../components/AutoTagChips';
 import { ProgressIndicatorCompact } from '../components/ProgressIndicator';
 import { THEME } from '../constants/config';
-import type { FileRecord, SearchResult, EngineState } from '../types';
+import { addAutoTagToken, parseSearchQuery, removeAutoTagToken } from '../services/QueryParser';
+import type {
+  FileRecord,
+  SearchResult,
+  SearchPagination,
+  DateRange,
+  DocumentQuery,
+  ImageQuery,
+  SearchSuggestion,
+  SavedSearch,
+  AutoTag,
+  EngineState,
+} from '../types';
 
 interface HomeScreenProps {
   state: EngineState;
   searchResults: SearchResult[];
+  searchPagination: SearchPagination;
+  searchDateRange: DateRange | null;
+  searchDocumentQuery: DocumentQuery | null;
+  similarTo: FileRecord | null;
+  imageQuery: ImageQuery | null;
+  searchSuggestions: SearchSuggestion[];
+  savedSearches: SavedSearch[];
+  autoTags: AutoTag[];
   allFiles: FileRecord[];
   onSearch: (query: string) => void;
+  onLoadMoreResults: () => void;
+  onDismissDateRange: () => void;
+  onDismissDocumentQuery: () => void;
+  onFindSimilar: (file: FileRecord) => void;
+  onSearchByImage: () => void;
+  onLoadSuggestions: (text: string) => void;
+  onRecordSearch: (query: string) => void;
+  onDeleteSearchHistoryEntry: (query: string) => void;
+  onSaveSearch: (name: string) => Promise<void>;
+  onOpenSavedSearch: (saved: SavedSearch) => void;
+  onDeleteSavedSearch: (id: number) => void;
+  onOpenFile: (file: FileRecord | SearchResult) => void;
   onClearSearch: () => void;
   onAddFiles: () => void;
   onNavigateToIndexing: () => void;
   onClearAllData: () => Promise<void>;
+  onDeleteFiles: (ids: number[]) => Promise<void>;
+  onResumeIndexing: () => void;
+  onDiscardResumableJob: () => Promise<void>;
   selectedFilesCount: number;
 }
 
 export const HomeScreen: React.FC<HomeScreenProps> = ({
   state,
   searchResults,
+  searchPagination,
+  searchDateRange,
+  searchDocumentQuery,
+  similarTo,
+  imageQuery,
+  searchSuggestions,
+  savedSearches,
+  autoTags,
   allFiles,
   onSearch,
+  onLoadMoreResults,
+  onDismissDateRange,
+  onDismissDocumentQuery,
+  onFindSimilar,
+  onSearchByImage,
+  onLoadSuggestions,
+  onRecordSearch,
+  onDeleteSearchHistoryEntry,
+  onSaveSearch,
+  onOpenSavedSearch,
+  onDeleteSavedSearch,
+  onOpenFile,
   onClearSearch,
   onAddFiles,
   onNavigateToIndexing,
   onClearAllData,
+  onDeleteFiles,
+  onResumeIndexing,
+  onDiscardResumableJob,
   selectedFilesCount,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  // Name being typed for a new smart album (null when not saving)
+  const [albumName, setAlbumName] = useState<string | null>(null);
 
   const handleSearchChange = useCallback((text: string) => {
     setSearchQuery(text);
     onSearch(text);
-  }, [onSearch]);
+    onLoadSuggestions(text);
+  }, [onSearch, onLoadSuggestions]);
 
   const handleClear = useCallback(() => {
     setSearchQuery('');
+    setAlbumName(null);
     onClearSearch();
-  }, [onClearSearch]);
+    onLoadSuggestions('');
+  }, [onClearSearch, onLoadSuggestions]);
+
+  const handleSearchFocus = useCallback(() => {
+    onLoadSuggestions(searchQuery);
+  }, [onLoadSuggestions, searchQuery]);
+
+  const handleSearchSubmit = useCallback(() => {
+    onRecordSearch(searchQuery);
+  }, [onRecordSearch, searchQuery]);
+
+  const handleSelectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    // A completed word gets a space so typing carries on with the next one
+    const text = suggestion.source === 'term' ? `${suggestion.text} ` : suggestion.text;
+    setSearchQuery(text);
+    onSearch(text);
+    onLoadSuggestions(text);
+    if (suggestion.source === 'history') {
+      onRecordSearch(text);
+    }
+  }, [onSearch, onLoadSuggestions, onRecordSearch]);
+
+  const handleDeleteSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    onDeleteSearchHistoryEntry(suggestion.text);
+  }, [onDeleteSearchHistoryEntry]);
 
   const handleItemPress = useCallback((item: FileRecord | SearchResult) => {
-    // Could open a detail view - for now just log
-    console.log('[HomeScreen] Item pressed:', item.filename);
-  }, []);
+    // Opening a result means the query was worth keeping
+    if (searchQuery.trim()) {
+      onRecordSearch(searchQuery);
+    }
+    onOpenFile(item);
+  }, [searchQuery, onRecordSearch, onOpenFile]);
+
+  const confirmDelete = useCallback((item: FileRecord | SearchResult) => {
+    Alert.alert(
+      'Delete Memory',
+      `Remove "${item.filename}" from your memories? The original file is not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => onDeleteFiles([item.id]),
+        },
+      ]
+    );
+  }, [onDeleteFiles]);
+
+  const handleFindSimilar = useCallback((item: FileRecord | SearchResult) => {
+    setSearchQuery('');
+    onFindSimilar(item);
+  }, [onFindSimilar]);
+
+  // Image and "more like this" searches replace whatever was typed
+  // (the detail screen can start one too)
+  useEffect(() => {
+    if (imageQuery || similarTo) {
+      setSearchQuery('');
+    }
+  }, [imageQuery, similarTo]);
+
+  const handleItemLongPress = useCallback((item: FileRecord | SearchResult) => {
+    Alert.alert(
+      item.filename,
+      undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'More Like This', onPress: () => handleFindSimilar(item) },
+        { text: 'Delete', style: 'destructive', onPress: () => confirmDelete(item) },
+      ]
+    );
+  }, [handleFindSimilar, confirmDelete]);
+
+  const handleOpenAlbum = useCallback((album: SavedSearch) => {
+    setSearchQuery(album.query);
+    setAlbumName(null);
+    onOpenSavedSearch(album);
+  }, [onOpenSavedSearch]);
+
+  const handleAlbumLongPress = useCallback((album: SavedSearch) => {
+    Alert.alert(
+      album.name,
+      album.query,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Album',
+          style: 'destructive',
+          onPress: () => onDeleteSavedSearch(album.id),
+        },
+      ]
+    );
+  }, [onDeleteSavedSearch]);
+
+  const handleSaveAlbum = useCallback(async () => {
+    if (!albumName?.trim()) return;
+    await onSaveSearch(albumName);
+    setAlbumName(null);
+  }, [albumName, onSaveSearch]);
+
+  const handleSelectAutoTag = useCallback((label: string) => {
+    const text = addAutoTagToken(searchQuery, label);
+    setSearchQuery(text);
+    onSearch(text);
+  }, [searchQuery, onSearch]);
+
+  const handleRemoveAutoTag = useCallback((label: string) => {
+    const text = removeAutoTagToken(searchQuery, label);
+    if (!text) {
+      handleClear();
+      return;
+    }
+    setSearchQuery(text);
+    onSearch(text);
+  }, [searchQuery, onSearch, handleClear]);
 
   const handleClearAllPress = useCallback(() => {
     Alert.alert(
@@ -82,7 +259,25 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
     );
   }, [onClearAllData]);
 
-  const isSearching = searchQuery.length > 0;
+  const handleDiscardJobPress = useCallback(() => {
+    Alert.alert(
+      'Discard Unfinished Indexing',
+      'Files that were not saved yet will need to be analyzed again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: onDiscardResumableJob,
+        },
+      ]
+    );
+  }, [onDiscardResumableJob]);
+
+  const isSearching = searchQuery.length > 0 || similarTo !== null || imageQuery !== null;
+  const activeAlbum = savedSearches.find(s => s.query === searchQuery.trim()) ?? null;
+  const canSaveAlbum = searchQuery.trim().length > 0 && !activeAlbum && albumName === null;
+  const activeAutoTags = parseSearchQuery(searchQuery, false).filters.autoTags || [];
   const displayData = isSearching ? searchResults : allFiles;
   const emptyMessage = isSearching
     ? (state.isSearching ? '' : 'No matching memories found')
@@ -102,12 +297,86 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
 
       {/* Search Bar */}
       <View style={styles.searchContainer}>
-        <SearchBar
-          value={searchQuery}
-          onChangeText={handleSearchChange}
-          onClear={handleClear}
-          isSearching={state.isSearching}
-        />
+        <View style={styles.searchRow}>
+          <View style={styles.searchBarWrapper}>
+            <SearchBar
+              value={searchQuery}
+              onChangeText={handleSearchChange}
+              onClear={handleClear}
+              isSearching={state.isSearching}
+              suggestions={searchSuggestions}
+              onFocus={handleSearchFocus}
+              onSubmit={handleSearchSubmit}
+              onSelectSuggestion={handleSelectSuggestion}
+              onDeleteSuggestion={handleDeleteSuggestion}
+            />
+          </View>
+          <TouchableOpacity
+            style={[
+              styles.imageSearchButton,
+              state.isIndexing && styles.imageSearchButtonDisabled,
+            ]}
+            onPress={onSearchByImage}
+            disabled={state.isIndexing || state.isSearching}
+          >
+            <Text style={styles.imageSearchButtonText}>IMG</Text>
+          </TouchableOpacity>
+        </View>
+        {isSearching && searchDateRange && (
+          <View style={styles.chipRow}>
+            <FilterChip label={searchDateRange.label} onRemove={onDismissDateRange} />
+          </View>
+        )}
+        {isSearching && searchDocumentQuery && (
+          <View style={styles.chipRow}>
+            <FilterChip label={searchDocumentQuery.label} onRemove={onDismissDocumentQuery} />
+          </View>
+        )}
+        {similarTo && (
+          <View style={styles.chipRow}>
+            <FilterChip label={`Like: ${similarTo.filename}`} onRemove={handleClear} />
+          </View>
+        )}
+        {imageQuery && (
+          <View style={styles.chipRow}>
+            <FilterChip label={`Image: ${imageQuery.filename}`} onRemove={handleClear} />
+          </View>
+        )}
+        {canSaveAlbum && (
+          <TouchableOpacity style={styles.saveAlbumLink} onPress={() => setAlbumName(searchQuery.trim())}>
+            <Text style={styles.saveAlbumLinkText}>+ Save as album</Text>
+          </TouchableOpacity>
+        )}
+        {albumName !== null && (
+          <View style={styles.albumNameRow}>
+            <TextInput
+              style={styles.albumNameInput}
+              value={albumName}
+              onChangeText={setAlbumName}
+              placeholder="Album name"
+              placeholderTextColor={THEME.textMuted}
+              selectionColor={THEME.accent}
+              onSubmitEditing={handleSaveAlbum}
+              returnKeyType="done"
+              autoFocus
+            />
+            <TouchableOpacity onPress={() => setAlbumName(null)}>
+              <Text style={styles.resumeDiscardText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.resumeButton, !albumName.trim() && styles.imageSearchButtonDisabled]}
+              onPress={handleSaveAlbum}
+              disabled={!albumName.trim()}
+            >
+              <Text style={styles.resumeButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {imageQuery?.caption && (
+          <Text style={styles.imageCaptionText} numberOfLines={3}>
+            Searching for: "{imageQuery.caption}"
+          </Text>
+        )}
       </View>
 
       {/* Indexing Progress (if active) */}
@@ -115,6 +384,23 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
         <ProgressIndicatorCompact progress={state.progress} />
       )}
 
+      {/* Unfinished Indexing Job */}
+      {state.resumableJob && !state.isIndexing && (
+        <View style={styles.resumeContainer}>
+          <Text style={styles.resumeText}>
+            Unfinished indexing: {state.resumableJob.completed}/{state.resumableJob.total} files saved
+          </Text>
+          <View style={styles.resumeActions}>
+            <TouchableOpacity onPress={handleDiscardJobPress}>
+              <Text style={styles.resumeDiscardText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.resumeButton} onPress={onResumeIndexing}>
+              <Text style={styles.resumeButtonText}>Resume</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Error Message */}
       {state.error && (
         <View style={styles.errorContainer}>
@@ -122,11 +408,33 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
         </View>
       )}
 
+      {/* Smart Albums */}
+      {savedSearches.length > 0 && (
+        <SmartAlbums
+          albums={savedSearches}
+          activeId={activeAlbum?.id ?? null}
+          onOpen={handleOpenAlbum}
+          onLongPress={handleAlbumLongPress}
+        />
+      )}
+
+      {/* Automatic Tags */}
+      {autoTags.length > 0 && !similarTo && !imageQuery && (
+        <AutoTagChips
+          tags={autoTags}
+          activeLabels={activeAutoTags}
+          onSelect={handleSelectAutoTag}
+          onRemove={handleRemoveAutoTag}
+        />
+      )}
+
       {/* Search Loading Indicator */}
       {state.isSearching && isSearching && (
         <View style={styles.searchLoadingContainer}>
           <ActivityIndicator size="large" color={THEME.accent} />
-          <Text style={styles.searchLoadingText}>Searching...</Text>
+          <Text style={styles.searchLoadingText}>
+            {imageQuery && !imageQuery.caption ? 'Analyzing image...' : 'Searching...'}
+          </Text>
         </View>
       )}
 
@@ -135,13 +443,16 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
         <MasonryGrid
           data={displayData}
           onItemPress={handleItemPress}
+          onItemLongPress={handleItemLongPress}
           showSimilarity={isSearching}
           emptyMessage={emptyMessage}
+          onEndReached={isSearching ? onLoadMoreResults : undefined}
+          isLoadingMore={isSearching && searchPagination.isLoadingMore}
           ListHeaderComponent={
             isSearching && searchResults.length > 0 ? (
               <View style={styles.resultsHeader}>
                 <Text style={styles.resultsCount}>
-                  {searchResults.length} results found
+                  {searchPagination.total}{searchPagination.totalIsEstimate ? '+' : ''} results found
                 </Text>
               </View>
             ) : undefined
@@ -213,6 +524,108 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchBarWrapper: {
+    flex: 1,
+  },
+  imageSearchButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    backgroundColor: THEME.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  imageSearchButtonDisabled: {
+    opacity: 0.4,
+  },
+  imageSearchButtonText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  saveAlbumLink: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  saveAlbumLinkText: {
+    fontSize: 12,
+    color: THEME.accent,
+    fontFamily: 'monospace',
+  },
+  albumNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  albumNameInput: {
+    flex: 1,
+    height: 40,
+    paddingHorizontal: 12,
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    color: THEME.text,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  imageCaptionText: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+  resumeContainer: {
+    marginHorizontal: 16,
+    padding: 12,
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    marginBottom: 12,
+  },
+  resumeText: {
+    color: THEME.text,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  resumeActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 10,
+  },
+  resumeDiscardText: {
+    color: THEME.textSecondary,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  resumeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: THEME.accent,
+    borderRadius: 16,
+  },
+  resumeButtonText: {
+    color: THEME.text,
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
   errorContainer: {
     marginHorizontal: 16,
     padding: 12,
@@ -7,6 +7,7 @@
  * - Current phase with animated visuals
  * - File summary (no scrolling, fits on screen)
  * - Cancel option (before processing starts)
+ * - Pause/continue and cancel while processing
  * - Nothing OS aesthetic
  */
 
@@ -20,10 +21,11 @@ import {
   TouchableOpacity,
   Modal,
   FlatList,
+  Alert,
 } from 'react-native';
 import { ProgressIndicator } from '../components/ProgressIndicator';
 import { THEME, type VisionModelOption } from '../constants/config';
-import type { SelectedFile, ProcessingProgress } from '../types';
+import type { SelectedFile, ProcessingProgress, IndexingSummary } from '../types';
 
 interface IndexingScreenProps {
   progress: ProcessingProgress;
@@ -31,12 +33,19 @@ interface IndexingScreenProps {
   isIndexing: boolean;
   onStartIndexing: () => void;
   onCancel: () => void;
+  // In-flight run controls
+  onPauseIndexing: () => void;
+  onContinueIndexing: () => void;
+  onCancelIndexing: () => void;
+  onRetryFailed: () => void;
   // Model selection
   availableModels: VisionModelOption[];
   selectedModel: string;
   onModelSelect: (modelSlug: string) => void;
   // Error state
   error?: string | null;
+  // Result of the last run (shown on completion)
+  summary?: IndexingSummary | null;
 }
 
 export const IndexingScreen: React.FC<IndexingScreenProps> = ({
@@ -45,10 +54,15 @@ export const IndexingScreen: React.FC<IndexingScreenProps> = ({
   isIndexing,
   onStartIndexing,
   onCancel,
+  onPauseIndexing,
+  onContinueIndexing,
+  onCancelIndexing,
+  onRetryFailed,
   availableModels,
   selectedModel,
   onModelSelect,
   error,
+  summary,
 }) => {
   const [dropdownVisible, setDropdownVisible] = useState(false);
 
@@ -71,6 +85,10 @@ export const IndexingScreen: React.FC<IndexingScreenProps> = ({
   const canStart = !isIndexing && selectedFiles.length > 0 && progress.phase !== 'complete';
   const hasError = progress.phase === 'error' || !!error;
   const isComplete = progress.phase === 'complete';
+  const isPaused = progress.phase === 'paused';
+  const wasCancelled = !!summary?.cancelled;
+  const failedFiles = summary?.failed ?? [];
+  const indexedCount = summary ? summary.indexed : progress.total;
 
   // Parse error message to show user-friendly text
   const getErrorDisplay = () => {
@@ -84,6 +102,21 @@ export const IndexingScreen: React.FC<IndexingScreenProps> = ({
     return errorMsg || 'An error occurred';
   };
 
+  const handleCancelIndexingPress = () => {
+    Alert.alert(
+      'Cancel Indexing',
+      'Files already analyzed will still be saved. The rest will be skipped.',
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        {
+          text: 'Cancel Indexing',
+          style: 'destructive',
+          onPress: onCancelIndexing,
+        },
+      ]
+    );
+  };
+
   const handleModelSelect = (modelSlug: string) => {
     onModelSelect(modelSlug);
     setDropdownVisible(false);
@@ -109,7 +142,13 @@ export const IndexingScreen: React.FC<IndexingScreenProps> = ({
         </TouchableOpacity>
         
         <Text style={styles.title}>
-          {hasError ? 'Error' : isComplete ? 'Complete' : isIndexing ? 'Dreaming...' : 'Ready to Index'}
+          {hasError
+            ? 'Error'
+            : isComplete
+              ? wasCancelled ? 'Cancelled' : 'Complete'
+              : isPaused
+                ? 'Paused'
+                : isIndexing ? 'Dreaming...' : 'Ready to Index'}
         </Text>
       </View>
 
@@ -134,17 +173,71 @@ export const IndexingScreen: React.FC<IndexingScreenProps> = ({
         {isComplete && !hasError && (
           <View style={styles.completeContainer}>
             <Text style={styles.completeText}>
-              All files have been indexed successfully
+              {wasCancelled
+                ? 'Indexing was cancelled'
+                : failedFiles.length > 0
+                  ? `${failedFiles.length} ${failedFiles.length === 1 ? 'file' : 'files'} could not be indexed`
+                  : summary && summary.indexed === 0
+                    ? 'Nothing new to index'
+                    : 'All files have been indexed successfully'}
             </Text>
             <Text style={styles.completeSubtext}>
-              {progress.total} {progress.total === 1 ? 'file' : 'files'} added to your memory
+              {indexedCount} {indexedCount === 1 ? 'file' : 'files'} added to your memory
             </Text>
+            {summary && summary.skippedDuplicates > 0 && (
+              <Text style={styles.completeDetail}>
+                {summary.skippedDuplicates} {summary.skippedDuplicates === 1 ? 'file was' : 'files were'} already indexed and skipped
+              </Text>
+            )}
+
+            {/* Failed Files */}
+            {failedFiles.length > 0 && (
+              <View style={styles.failedCard}>
+                <FlatList
+                  data={failedFiles}
+                  keyExtractor={(item, index) => `failed-${index}-${item.filename}`}
+                  renderItem={({ item }) => (
+                    <View style={styles.failedRow}>
+                      <Text style={styles.failedName} numberOfLines={1}>{item.filename}</Text>
+                      <Text style={styles.failedReason} numberOfLines={2}>{item.error}</Text>
+                    </View>
+                  )}
+                />
+                <TouchableOpacity
+                  style={[styles.retryButton, styles.failedRetryButton]}
+                  onPress={onRetryFailed}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.retryButtonText}>Retry Failed</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
         )}
 
         {/* Progress Indicator (when indexing) */}
         {isIndexing && !hasError && !isComplete && (
-          <ProgressIndicator progress={progress} />
+          <>
+            <ProgressIndicator progress={progress} />
+
+            {/* Run Controls */}
+            <View style={styles.controlsRow}>
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={isPaused ? onContinueIndexing : onPauseIndexing}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.controlButtonText}>{isPaused ? 'Continue' : 'Pause'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={handleCancelIndexingPress}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.controlButtonText, styles.controlButtonTextDanger]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </>
         )}
 
         {/* Pre-indexing UI */}
@@ -372,6 +465,43 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     textAlign: 'center',
   },
+  completeDetail: {
+    fontSize: 14,
+    color: THEME.textMuted,
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  failedCard: {
+    alignSelf: 'stretch',
+    maxHeight: 260,
+    marginTop: 20,
+    padding: 12,
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.error,
+  },
+  failedRetryButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+  },
+  failedRow: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.border,
+  },
+  failedName: {
+    fontSize: 13,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  failedReason: {
+    fontSize: 12,
+    color: THEME.error,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
   // Summary card
   summaryCard: {
     backgroundColor: THEME.surface,
@@ -447,6 +577,28 @@ const styles = StyleSheet.create({
     color: THEME.textSecondary,
     marginLeft: 8,
   },
+  // Run controls
+  controlsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  controlButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    backgroundColor: THEME.surface,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  controlButtonText: {
+    fontSize: 14,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  controlButtonTextDanger: {
+    color: THEME.error,
+  },
   // Info text
   infoContainer: {
     alignItems: 'center',
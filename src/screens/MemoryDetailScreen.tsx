@@ -0,0 +1,664 @@
+/**
+ * MemoryDetailScreen
+ *
+ * Full view of one memory with:
+ * - Full image, or file info for PDFs
+ * - Complete caption (with the match breakdown when opened from search)
+ * - Filename, indexed date and the model that wrote the caption
+ * - Caption editing (saved captions are re-embedded)
+ * - Your own notes and tags (also embedded and keyword-searchable)
+ * - Automatic tags matched from the label vocabulary
+ * - Document type and key fields found in PDFs
+ * - Actions: more like this, re-caption, share, delete
+ *
+ * Drawn over HomeScreen so the search behind it is kept.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  Share,
+  BackHandler,
+} from 'react-native';
+import { MatchBreakdown } from '../components/MatchBreakdown';
+import { FilterChip } from '../components/FilterChip';
+import { DOCUMENT_TYPE_LABELS } from '../services/DocumentExtractor';
+import {
+  THEME,
+  VISION_MODELS,
+  CAPTION_SOURCE_PDF_TEXT,
+  CAPTION_SOURCE_FILENAME,
+} from '../constants/config';
+import type { FileRecord, FileDetails, SearchResult, Tag, DocumentFields } from '../types';
+
+// Existing tags offered while typing a new one
+const MAX_TAG_SUGGESTIONS = 5;
+
+interface MemoryDetailScreenProps {
+  file: FileRecord | SearchResult;
+  isBusy: boolean; // indexing or searching - models are in use
+  error: string | null;
+  allTags: Tag[];
+  onBack: () => void;
+  onLoadDetails: (id: number) => Promise<FileDetails | null>;
+  onRecaption: (id: number, overwriteEdited?: boolean) => Promise<FileDetails | null>;
+  onUpdateCaption: (id: number, caption: string) => Promise<FileDetails | null>;
+  onSetNote: (id: number, note: string) => Promise<FileDetails | null>;
+  onAddTag: (id: number, name: string) => Promise<FileDetails | null>;
+  onRemoveTag: (id: number, name: string) => Promise<FileDetails | null>;
+  onFindSimilar: (file: FileRecord) => void;
+  onDelete: (id: number) => Promise<void>;
+}
+
+const describeCaptionModel = (captionModel: string | null | undefined): string => {
+  if (!captionModel) return 'Unknown (indexed before this was recorded)';
+  if (captionModel === CAPTION_SOURCE_PDF_TEXT) return 'PDF text extraction';
+  if (captionModel === CAPTION_SOURCE_FILENAME) return 'Filename (vision model off)';
+  return VISION_MODELS.find(m => m.slug === captionModel)?.name ?? captionModel;
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// "Invoice from Acme Ltd" - or just the type when no sender was found
+const describeDocumentSource = (document: DocumentFields): string =>
+  document.counterparty
+    ? `${DOCUMENT_TYPE_LABELS[document.documentType]} from ${document.counterparty}`
+    : DOCUMENT_TYPE_LABELS[document.documentType];
+
+export const MemoryDetailScreen: React.FC<MemoryDetailScreenProps> = ({
+  file,
+  isBusy,
+  error,
+  allTags,
+  onBack,
+  onLoadDetails,
+  onRecaption,
+  onUpdateCaption,
+  onSetNote,
+  onAddTag,
+  onRemoveTag,
+  onFindSimilar,
+  onDelete,
+}) => {
+  const [details, setDetails] = useState<FileDetails | null>(null);
+  const [isRecaptioning, setIsRecaptioning] = useState(false);
+  // Caption text being edited (null when not editing)
+  const [draftCaption, setDraftCaption] = useState<string | null>(null);
+  const [isSavingCaption, setIsSavingCaption] = useState(false);
+  const [draftNote, setDraftNote] = useState('');
+  const [draftTag, setDraftTag] = useState('');
+  // Note and tag changes re-embed the memory - one at a time
+  const [isAnnotating, setIsAnnotating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoadDetails(file.id).then(loaded => {
+      if (!cancelled) {
+        setDetails(loaded);
+        setDraftNote(loaded?.note ?? '');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id, onLoadDetails]);
+
+  // Android back button closes the detail view
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      onBack();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [onBack]);
+
+  const caption = details?.caption ?? file.caption;
+  // The breakdown describes the caption that was searched - hide it once that changes
+  const searchResult = 'match' in file && caption === file.caption ? file : null;
+
+  const runRecaption = useCallback(async (overwriteEdited: boolean) => {
+    setIsRecaptioning(true);
+    const updated = await onRecaption(file.id, overwriteEdited);
+    if (updated) {
+      setDetails(updated);
+    }
+    setIsRecaptioning(false);
+  }, [file.id, onRecaption]);
+
+  const handleRecaption = useCallback(() => {
+    if (!details?.caption_edited) {
+      runRecaption(false);
+      return;
+    }
+    Alert.alert(
+      'Replace Your Caption?',
+      'You edited this caption. Re-captioning will replace your text.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => runRecaption(true) },
+      ]
+    );
+  }, [details?.caption_edited, runRecaption]);
+
+  const handleSaveCaption = useCallback(async () => {
+    if (draftCaption === null || !draftCaption.trim()) return;
+
+    setIsSavingCaption(true);
+    const updated = await onUpdateCaption(file.id, draftCaption);
+    if (updated) {
+      setDetails(updated);
+      setDraftCaption(null);
+    }
+    setIsSavingCaption(false);
+  }, [file.id, draftCaption, onUpdateCaption]);
+
+  const annotate = useCallback(async (
+    change: () => Promise<FileDetails | null>
+  ): Promise<boolean> => {
+    setIsAnnotating(true);
+    const updated = await change();
+    if (updated) {
+      setDetails(updated);
+    }
+    setIsAnnotating(false);
+    return updated !== null;
+  }, []);
+
+  const handleSaveNote = useCallback(async () => {
+    const saved = await annotate(() => onSetNote(file.id, draftNote));
+    if (saved) {
+      setDraftNote(prev => prev.trim());
+    }
+  }, [file.id, draftNote, annotate, onSetNote]);
+
+  const handleAddTag = useCallback(async (name: string) => {
+    if (!name.trim()) return;
+    const saved = await annotate(() => onAddTag(file.id, name));
+    if (saved) {
+      setDraftTag('');
+    }
+  }, [file.id, annotate, onAddTag]);
+
+  const handleRemoveTag = useCallback((name: string) => {
+    annotate(() => onRemoveTag(file.id, name));
+  }, [file.id, annotate, onRemoveTag]);
+
+  const handleShare = useCallback(async () => {
+    try {
+      await Share.share({
+        title: file.filename,
+        message: caption ? `${file.filename}\n\n${caption}` : file.filename,
+        url: file.uri,
+      });
+    } catch (shareError) {
+      console.error('[MemoryDetailScreen] Share failed:', shareError);
+    }
+  }, [file.filename, file.uri, caption]);
+
+  const handleDelete = useCallback(() => {
+    Alert.alert(
+      'Delete Memory',
+      `Remove "${file.filename}" from your memories? The original file is not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await onDelete(file.id);
+            onBack();
+          },
+        },
+      ]
+    );
+  }, [file.id, file.filename, onDelete, onBack]);
+
+  const isImage = file.file_type === 'image';
+  const canRecaption = !isBusy && !isRecaptioning && !isSavingCaption;
+  const canSaveCaption = !isBusy && !isSavingCaption && !!draftCaption?.trim();
+  const canAnnotate = !!details && !isBusy && !isAnnotating;
+  const canSaveNote = canAnnotate && draftNote.trim() !== (details?.note ?? '');
+
+  const fileTags = details?.tags ?? [];
+  const tagPrefix = draftTag.trim().toLowerCase();
+  const tagSuggestions = tagPrefix
+    ? allTags
+        .filter(tag =>
+          tag.name.toLowerCase().startsWith(tagPrefix) &&
+          !fileTags.some(name => name.toLowerCase() === tag.name.toLowerCase())
+        )
+        .slice(0, MAX_TAG_SUGGESTIONS)
+    : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={THEME.background} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>{'< Back'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={2}>{file.filename}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Preview */}
+        {isImage ? (
+          <Image source={{ uri: file.uri }} style={styles.image} resizeMode="contain" />
+        ) : (
+          <View style={styles.pdfCard}>
+            <Text style={styles.pdfIcon}>PDF</Text>
+            <Text style={styles.pdfInfo}>
+              {details?.size != null ? formatSize(details.size) : 'Size unknown'}
+            </Text>
+          </View>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {/* Caption */}
+        {draftCaption !== null ? (
+          <>
+            <Text style={styles.sectionTitle}>EDIT CAPTION</Text>
+            <TextInput
+              style={styles.captionInput}
+              value={draftCaption}
+              onChangeText={setDraftCaption}
+              multiline
+              autoFocus
+              selectionColor={THEME.accent}
+              placeholder="Describe this memory"
+              placeholderTextColor={THEME.textMuted}
+            />
+            <View style={styles.editActions}>
+              <TouchableOpacity onPress={() => setDraftCaption(null)} disabled={isSavingCaption}>
+                <Text style={styles.note}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, !canSaveCaption && styles.actionButtonDisabled]}
+                onPress={handleSaveCaption}
+                disabled={!canSaveCaption}
+              >
+                {isSavingCaption ? (
+                  <ActivityIndicator size="small" color={THEME.text} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : searchResult ? (
+          <MatchBreakdown result={searchResult} />
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>CAPTION</Text>
+            <Text style={styles.body}>{caption || 'No caption'}</Text>
+            <Text style={styles.sectionTitle}>FILENAME</Text>
+            <Text style={styles.body}>{file.filename}</Text>
+          </>
+        )}
+        {draftCaption === null && (
+          <TouchableOpacity
+            style={styles.editLink}
+            onPress={() => setDraftCaption(caption || '')}
+            disabled={isRecaptioning}
+          >
+            <Text style={styles.editLinkText}>Edit caption</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Tags */}
+        <Text style={styles.sectionTitle}>TAGS</Text>
+        {fileTags.length > 0 && (
+          <View style={styles.tagRow}>
+            {fileTags.map(name => (
+              <FilterChip
+                key={name}
+                label={name}
+                onRemove={canAnnotate ? () => handleRemoveTag(name) : undefined}
+              />
+            ))}
+          </View>
+        )}
+        {details && details.auto_tags.length > 0 && (
+          <Text style={[styles.note, styles.autoTags]}>
+            Automatic: {details.auto_tags.join(', ')}
+          </Text>
+        )}
+        <TextInput
+          style={styles.tagInput}
+          value={draftTag}
+          onChangeText={setDraftTag}
+          onSubmitEditing={() => handleAddTag(draftTag)}
+          editable={canAnnotate}
+          returnKeyType="done"
+          autoCapitalize="none"
+          selectionColor={THEME.accent}
+          placeholder="Add a tag"
+          placeholderTextColor={THEME.textMuted}
+        />
+        {tagSuggestions.length > 0 && (
+          <View style={styles.tagRow}>
+            {tagSuggestions.map(tag => (
+              <TouchableOpacity key={tag.id} onPress={() => handleAddTag(tag.name)}>
+                <Text style={styles.editLinkText}>+ {tag.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Notes */}
+        <Text style={styles.sectionTitle}>NOTES</Text>
+        <TextInput
+          style={[styles.captionInput, styles.noteInput]}
+          value={draftNote}
+          onChangeText={setDraftNote}
+          editable={!!details && !isAnnotating}
+          multiline
+          selectionColor={THEME.accent}
+          placeholder="Anything you want to remember about this"
+          placeholderTextColor={THEME.textMuted}
+        />
+        {canSaveNote && (
+          <View style={styles.editActions}>
+            <TouchableOpacity onPress={() => setDraftNote(details?.note ?? '')}>
+              <Text style={styles.note}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveNote}>
+              <Text style={styles.saveButtonText}>Save note</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {isAnnotating && (
+          <ActivityIndicator size="small" color={THEME.accent} style={styles.annotating} />
+        )}
+
+        {/* Fields extracted from PDF text */}
+        {details?.document && (
+          <>
+            <Text style={styles.sectionTitle}>DOCUMENT</Text>
+            <Text style={styles.body}>{describeDocumentSource(details.document)}</Text>
+            {details.document.totalAmount != null && (
+              <Text style={styles.note}>
+                Total: {details.document.totalAmount.toFixed(2)}
+                {details.document.currency ? ` ${details.document.currency}` : ''}
+              </Text>
+            )}
+            {details.document.documentDate != null && (
+              <Text style={styles.note}>
+                Dated: {new Date(details.document.documentDate).toLocaleDateString()}
+              </Text>
+            )}
+            {details.document.referenceNumbers.length > 0 && (
+              <Text style={styles.note}>
+                Reference: {details.document.referenceNumbers.join(', ')}
+              </Text>
+            )}
+          </>
+        )}
+
+        {/* Metadata */}
+        <Text style={styles.sectionTitle}>INDEXED</Text>
+        <Text style={styles.body}>{new Date(file.created_at).toLocaleString()}</Text>
+
+        <Text style={styles.sectionTitle}>CAPTIONED BY</Text>
+        <Text style={styles.body}>
+          {details
+            ? details.caption_edited
+              ? `You (originally ${describeCaptionModel(details.caption_model)})`
+              : describeCaptionModel(details.caption_model)
+            : '...'}
+        </Text>
+
+        {isImage && details?.size != null && (
+          <>
+            <Text style={styles.sectionTitle}>SIZE</Text>
+            <Text style={styles.body}>{formatSize(details.size)}</Text>
+          </>
+        )}
+
+        {details?.source_uri && (
+          <>
+            <Text style={styles.sectionTitle}>IMPORTED FROM</Text>
+            <Text style={styles.note} numberOfLines={2}>{details.source_uri}</Text>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actionBar}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => onFindSimilar(file)}>
+          <Text style={styles.actionButtonText}>Similar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, !canRecaption && styles.actionButtonDisabled]}
+          onPress={handleRecaption}
+          disabled={!canRecaption}
+        >
+          {isRecaptioning ? (
+            <ActivityIndicator size="small" color={THEME.accent} />
+          ) : (
+            <Text style={styles.actionButtonText}>Re-caption</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleShare}>
+          <Text style={styles.actionButtonText}>Share</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleDelete}>
+          <Text style={[styles.actionButtonText, styles.deleteText]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: THEME.background,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: THEME.accent,
+    fontFamily: 'monospace',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 100,
+  },
+  image: {
+    width: '100%',
+    height: 360,
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+  },
+  pdfCard: {
+    height: 160,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  pdfIcon: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: THEME.accent,
+    fontFamily: 'monospace',
+  },
+  pdfInfo: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+  errorContainer: {
+    padding: 12,
+    backgroundColor: 'rgba(255, 51, 51, 0.1)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: THEME.error,
+    marginTop: 12,
+  },
+  errorText: {
+    color: THEME.error,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: THEME.textMuted,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  note: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    fontFamily: 'monospace',
+  },
+  editLink: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  editLinkText: {
+    fontSize: 12,
+    color: THEME.accent,
+    fontFamily: 'monospace',
+  },
+  captionInput: {
+    minHeight: 120,
+    padding: 12,
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: THEME.accent,
+    color: THEME.text,
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  noteInput: {
+    minHeight: 80,
+    borderColor: THEME.border,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  autoTags: {
+    marginBottom: 8,
+  },
+  tagInput: {
+    height: 40,
+    paddingHorizontal: 12,
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: THEME.border,
+    color: THEME.text,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  annotating: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  editActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 10,
+  },
+  saveButton: {
+    minWidth: 72,
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: THEME.accent,
+    borderRadius: 16,
+  },
+  saveButtonText: {
+    color: THEME.text,
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  actionBar: {
+    position: 'absolute',
+    bottom: 24,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: THEME.surface,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: THEME.border,
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: THEME.text,
+    fontFamily: 'monospace',
+  },
+  deleteText: {
+    color: THEME.error,
+  },
+});
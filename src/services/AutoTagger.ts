@@ -0,0 +1,172 @@
+/**
+ * AutoTagger - Zero-shot tags from a fixed label vocabulary
+ *
+ * Handles:
+ * - Caching one embedding per AUTO_TAG_LABELS entry (auto_tag_labels)
+ * - Tagging memories whose vector is close enough to a label (file_auto_tags)
+ * - Noticing when the vocabulary changed and every memory needs re-tagging
+ *
+ * Scores are cosine similarities computed by sqlite-vec against the cached
+ * label vectors, so tagging itself never loads a model.
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import {
+  AUTO_TAG_LABELS,
+  AUTO_TAG_MIN_SIMILARITY,
+  type AutoTagLabel,
+} from '../constants/config';
+import type { AutoTag } from '../types';
+
+// Row in auto_tag_labels (embedding left out - it's only read by SQL)
+interface StoredLabel {
+  name: string;
+  description: string;
+  model: string;
+  min_similarity: number;
+}
+
+// Similarity of every file vector (or one file's) to every cached label,
+// keeping the pairs over that label's threshold
+const scoredPairsSql = (oneFile: boolean): string =>
+  `SELECT file_id, label, score FROM (
+     SELECT
+       v.file_id,
+       l.name AS label,
+       l.min_similarity,
+       1 - vec_distance_cosine(v.embedding, l.embedding) AS score
+     FROM file_vectors v
+     CROSS JOIN auto_tag_labels l${oneFile ? '\n     WHERE v.file_id = ?' : ''}
+   )
+   WHERE score >= min_similarity`;
+
+const minSimilarity = (label: AutoTagLabel): number =>
+  label.minSimilarity ?? AUTO_TAG_MIN_SIMILARITY;
+
+const getStoredLabels = (db: DB): Map<string, StoredLabel> => {
+  const result = db.executeSync(
+    'SELECT name, description, model, min_similarity FROM auto_tag_labels'
+  );
+  const stored = new Map<string, StoredLabel>();
+  for (const row of (result.rows || []) as any[]) {
+    stored.set(row.name, row as StoredLabel);
+  }
+  return stored;
+};
+
+/**
+ * Vocabulary labels with no cached embedding for this description and model
+ */
+export const getLabelsToEmbed = (db: DB, model: string): AutoTagLabel[] => {
+  const stored = getStoredLabels(db);
+  return AUTO_TAG_LABELS.filter(label => {
+    const row = stored.get(label.name);
+    return !row || row.description !== label.description || row.model !== model;
+  });
+};
+
+/**
+ * Whether the cached labels are exactly the current vocabulary
+ * (same names, descriptions, thresholds and embedding model)
+ */
+export const isVocabularyCurrent = (db: DB, model: string): boolean => {
+  const stored = getStoredLabels(db);
+  return (
+    stored.size === AUTO_TAG_LABELS.length &&
+    AUTO_TAG_LABELS.every(label => {
+      const row = stored.get(label.name);
+      return (
+        !!row &&
+        row.description === label.description &&
+        row.model === model &&
+        row.min_similarity === minSimilarity(label)
+      );
+    })
+  );
+};
+
+export const saveLabelEmbedding = (
+  db: DB,
+  label: AutoTagLabel,
+  model: string,
+  embeddingJson: string
+): void => {
+  db.executeSync(
+    `INSERT OR REPLACE INTO auto_tag_labels (name, description, model, min_similarity, embedding)
+     VALUES (?, ?, ?, ?, ?)`,
+    [label.name, label.description, model, minSimilarity(label), embeddingJson]
+  );
+};
+
+/**
+ * Bring the cached labels in line with the vocabulary and re-tag every memory.
+ * Call after saving embeddings for getLabelsToEmbed().
+ */
+export const retagAllFiles = (db: DB): void => {
+  const names = AUTO_TAG_LABELS.map(label => label.name);
+  const placeholders = names.map(() => '?').join(', ');
+
+  db.executeSync(`DELETE FROM auto_tag_labels WHERE name NOT IN (${placeholders})`, names);
+  for (const label of AUTO_TAG_LABELS) {
+    db.executeSync(
+      'UPDATE auto_tag_labels SET min_similarity = ? WHERE name = ?',
+      [minSimilarity(label), label.name]
+    );
+  }
+
+  db.executeSync('DELETE FROM file_auto_tags');
+  db.executeSync(`INSERT INTO file_auto_tags (file_id, label, score) ${scoredPairsSql(false)}`);
+};
+
+/**
+ * Re-tag one memory from its current vector (call after the vector changes)
+ */
+export const tagFile = (db: DB, fileId: number): void => {
+  db.executeSync('DELETE FROM file_auto_tags WHERE file_id = ?', [fileId]);
+  db.executeSync(
+    `INSERT INTO file_auto_tags (file_id, label, score) ${scoredPairsSql(true)}`,
+    [fileId]
+  );
+};
+
+/**
+ * Labels that at least one memory carries, in vocabulary order
+ */
+export const getAutoTags = (db: DB): AutoTag[] => {
+  const result = db.executeSync(
+    'SELECT label, COUNT(*) AS file_count FROM file_auto_tags GROUP BY label'
+  );
+  const counts = new Map<string, number>();
+  for (const row of (result.rows || []) as any[]) {
+    counts.set(row.label, row.file_count);
+  }
+
+  return AUTO_TAG_LABELS
+    .filter(label => counts.has(label.name))
+    .map(label => ({ label: label.name, fileCount: counts.get(label.name)! }));
+};
+
+/**
+ * A memory's labels, best match first
+ */
+export const getFileAutoTags = (db: DB, fileId: number): string[] => {
+  const result = db.executeSync(
+    'SELECT label FROM file_auto_tags WHERE file_id = ? ORDER BY score DESC',
+    [fileId]
+  );
+  return (result.rows || []).map((row: any) => row.label as string);
+};
+
+export const deleteFileAutoTags = (db: DB, fileIds: number[]): void => {
+  if (fileIds.length === 0) return;
+  const placeholders = fileIds.map(() => '?').join(', ');
+  db.executeSync(`DELETE FROM file_auto_tags WHERE file_id IN (${placeholders})`, fileIds);
+};
+
+/**
+ * Forget every memory's tags (cached label embeddings don't depend on the library)
+ */
+export const clearAutoTags = (db: DB): void => {
+  db.executeSync('DELETE FROM file_auto_tags');
+};
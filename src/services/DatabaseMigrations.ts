@@ -0,0 +1,481 @@
+/**
+ * DatabaseMigrations - Versioned schema upgrades for recall.db
+ *
+ * Handles:
+ * - Ordered migration steps keyed on PRAGMA user_version
+ * - One transaction per step (schema change + version bump commit together)
+ * - Rollback on failure so the existing index is left untouched
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import { EMBEDDING_DIMENSION } from '../constants/config';
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: DB) => void;
+}
+
+// Check whether a table (or virtual table) exists
+const tableExists = (db: DB, name: string): boolean => {
+  const result = db.executeSync(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    [name]
+  );
+  return (result.rows?.length || 0) > 0;
+};
+
+/**
+ * Migrations in ascending version order.
+ * Never edit a released step - add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create files table',
+    up: (db) => {
+      // IF NOT EXISTS so installs from before versioning adopt v1 as-is
+      db.executeSync(`
+        CREATE TABLE IF NOT EXISTS files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uri TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          file_type TEXT NOT NULL,
+          caption TEXT,
+          thumbnail TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+      db.executeSync(`
+        CREATE INDEX IF NOT EXISTS idx_files_type ON files(file_type);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Store vectors in sqlite-vec vec0 table',
+    up: (db) => {
+      // Pre-sqlite-vec installs stored JSON text embeddings in a plain table
+      const result = db.executeSync(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'file_vectors'`
+      );
+      const sql = (result.rows?.[0] as any)?.sql as string | undefined;
+      if (sql && !sql.includes('vec0')) {
+        db.executeSync('ALTER TABLE file_vectors RENAME TO file_vectors_legacy');
+      }
+
+      db.executeSync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS file_vectors USING vec0(
+          file_id INTEGER PRIMARY KEY,
+          embedding float[${EMBEDDING_DIMENSION}] distance_metric=cosine
+        );
+      `);
+
+      // Also picks up a legacy table left behind by an interrupted earlier upgrade
+      if (tableExists(db, 'file_vectors_legacy')) {
+        // Rows with a mismatched dimension can't be stored in vec0 and are dropped;
+        // those files stay listed but won't show up in semantic search
+        db.executeSync(
+          `INSERT INTO file_vectors (file_id, embedding)
+           SELECT l.file_id, l.embedding
+           FROM file_vectors_legacy l
+           WHERE json_array_length(l.embedding) = ?
+             AND l.file_id NOT IN (SELECT file_id FROM file_vectors)`,
+          [EMBEDDING_DIMENSION]
+        );
+        db.executeSync('DROP TABLE file_vectors_legacy');
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add content hash for deduplication',
+    up: (db) => {
+      // Existing rows keep a NULL hash - they were indexed before hashing existed
+      db.executeSync('ALTER TABLE files ADD COLUMN content_hash TEXT');
+      db.executeSync(`
+        CREATE INDEX IF NOT EXISTS idx_files_content_hash ON files(content_hash);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add persistent indexing job queue',
+    up: (db) => {
+      db.executeSync(`
+        CREATE TABLE indexing_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          vision_model TEXT NOT NULL,
+          status TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+      // status: pending -> captioned -> embedded -> saved (or failed)
+      db.executeSync(`
+        CREATE TABLE indexing_job_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER NOT NULL,
+          uri TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          file_type TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          content_hash TEXT,
+          status TEXT NOT NULL,
+          caption TEXT,
+          thumbnail TEXT,
+          embedding TEXT,
+          error TEXT,
+          file_id INTEGER,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY (job_id) REFERENCES indexing_jobs(id)
+        );
+      `);
+      db.executeSync(`
+        CREATE INDEX idx_job_files_job_status ON indexing_job_files(job_id, status);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Track source URI of files copied into the library',
+    up: (db) => {
+      // uri now points at the app's own copy; source_uri is where it was picked from
+      db.executeSync('ALTER TABLE files ADD COLUMN source_uri TEXT');
+      db.executeSync('ALTER TABLE indexing_job_files ADD COLUMN source_uri TEXT');
+    },
+  },
+  {
+    version: 6,
+    description: 'Add FTS5 index over captions and filenames',
+    up: (db) => {
+      // External-content table: text lives in files, triggers keep the index in sync
+      db.executeSync(`
+        CREATE VIRTUAL TABLE files_fts USING fts5(
+          caption,
+          filename,
+          content = 'files',
+          content_rowid = 'id',
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+      `);
+      db.executeSync(`
+        CREATE TRIGGER files_fts_insert AFTER INSERT ON files BEGIN
+          INSERT INTO files_fts (rowid, caption, filename)
+          VALUES (new.id, new.caption, new.filename);
+        END;
+      `);
+      db.executeSync(`
+        CREATE TRIGGER files_fts_delete AFTER DELETE ON files BEGIN
+          INSERT INTO files_fts (files_fts, rowid, caption, filename)
+          VALUES ('delete', old.id, old.caption, old.filename);
+        END;
+      `);
+      db.executeSync(`
+        CREATE TRIGGER files_fts_update AFTER UPDATE OF caption, filename ON files BEGIN
+          INSERT INTO files_fts (files_fts, rowid, caption, filename)
+          VALUES ('delete', old.id, old.caption, old.filename);
+          INSERT INTO files_fts (rowid, caption, filename)
+          VALUES (new.id, new.caption, new.filename);
+        END;
+      `);
+      // Index rows that existed before this version
+      db.executeSync(`INSERT INTO files_fts (files_fts) VALUES ('rebuild')`);
+    },
+  },
+  {
+    version: 7,
+    description: 'Add query embedding cache',
+    up: (db) => {
+      // query is normalized search text; model keeps vectors from different embedders apart
+      db.executeSync(`
+        CREATE TABLE query_embeddings (
+          query TEXT NOT NULL,
+          model TEXT NOT NULL,
+          embedding TEXT NOT NULL,
+          last_used_at INTEGER NOT NULL,
+          PRIMARY KEY (query, model)
+        );
+      `);
+      db.executeSync(`
+        CREATE INDEX idx_query_embeddings_last_used ON query_embeddings(last_used_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add search history and caption vocabulary',
+    up: (db) => {
+      db.executeSync(`
+        CREATE TABLE search_history (
+          query TEXT PRIMARY KEY COLLATE NOCASE,
+          use_count INTEGER NOT NULL DEFAULT 1,
+          last_used_at INTEGER NOT NULL
+        );
+      `);
+      // Read-only view of the terms in files_fts, with per-column document counts
+      db.executeSync(`
+        CREATE VIRTUAL TABLE files_fts_vocab USING fts5vocab(files_fts, 'col');
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Add saved searches',
+    up: (db) => {
+      db.executeSync(`
+        CREATE TABLE saved_searches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          query TEXT NOT NULL,
+          parse_dates INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Record which model wrote each caption',
+    up: (db) => {
+      // NULL for files indexed before this version
+      db.executeSync('ALTER TABLE files ADD COLUMN caption_model TEXT');
+      db.executeSync('ALTER TABLE indexing_job_files ADD COLUMN caption_model TEXT');
+    },
+  },
+  {
+    version: 11,
+    description: 'Flag captions edited by the user',
+    up: (db) => {
+      // Bulk re-captioning must skip these so manual text is never overwritten
+      db.executeSync('ALTER TABLE files ADD COLUMN caption_edited INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 12,
+    description: 'Add notes and tags, and index them for keyword search',
+    up: (db) => {
+      db.executeSync(`
+        CREATE TABLE file_notes (
+          file_id INTEGER PRIMARY KEY,
+          note TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY (file_id) REFERENCES files(id)
+        );
+      `);
+      db.executeSync(`
+        CREATE TABLE tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at INTEGER NOT NULL
+        );
+      `);
+      db.executeSync(`
+        CREATE TABLE file_tags (
+          file_id INTEGER NOT NULL,
+          tag_id INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (file_id, tag_id),
+          FOREIGN KEY (file_id) REFERENCES files(id),
+          FOREIGN KEY (tag_id) REFERENCES tags(id)
+        );
+      `);
+      db.executeSync('CREATE INDEX idx_file_tags_tag ON file_tags(tag_id)');
+
+      // Everything keyword search looks at for a file, in one row
+      db.executeSync(`
+        CREATE VIEW files_search_text AS
+        SELECT
+          f.id,
+          f.caption,
+          f.filename,
+          (SELECT note FROM file_notes WHERE file_id = f.id) AS notes,
+          (SELECT group_concat(t.name, ' ')
+             FROM file_tags ft
+             INNER JOIN tags t ON t.id = ft.tag_id
+             WHERE ft.file_id = f.id) AS tags
+        FROM files f;
+      `);
+
+      // The index now spans several tables, so it stores its own copy of the text
+      // (rows are replaced by rowid) instead of reading external content from files
+      db.executeSync('DROP TRIGGER files_fts_insert');
+      db.executeSync('DROP TRIGGER files_fts_delete');
+      db.executeSync('DROP TRIGGER files_fts_update');
+      db.executeSync('DROP TABLE files_fts_vocab');
+      db.executeSync('DROP TABLE files_fts');
+      db.executeSync(`
+        CREATE VIRTUAL TABLE files_fts USING fts5(
+          caption,
+          filename,
+          notes,
+          tags,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+      `);
+      db.executeSync(`
+        CREATE VIRTUAL TABLE files_fts_vocab USING fts5vocab(files_fts, 'col');
+      `);
+
+      // Re-index one file from the view
+      const reindex = (fileId: string): string => `
+        DELETE FROM files_fts WHERE rowid = ${fileId};
+        INSERT INTO files_fts (rowid, caption, filename, notes, tags)
+        SELECT id, caption, filename, notes, tags FROM files_search_text WHERE id = ${fileId};
+      `;
+      db.executeSync(`
+        CREATE TRIGGER files_fts_insert AFTER INSERT ON files BEGIN
+          ${reindex('new.id')}
+        END;
+      `);
+      db.executeSync(`
+        CREATE TRIGGER files_fts_delete AFTER DELETE ON files BEGIN
+          DELETE FROM files_fts WHERE rowid = old.id;
+        END;
+      `);
+      db.executeSync(`
+        CREATE TRIGGER files_fts_update AFTER UPDATE OF caption, filename ON files BEGIN
+          ${reindex('new.id')}
+        END;
+      `);
+      for (const [table, event, row] of [
+        ['file_notes', 'INSERT', 'new'],
+        ['file_notes', 'UPDATE', 'new'],
+        ['file_notes', 'DELETE', 'old'],
+        ['file_tags', 'INSERT', 'new'],
+        ['file_tags', 'DELETE', 'old'],
+      ]) {
+        db.executeSync(`
+          CREATE TRIGGER ${table}_fts_${event.toLowerCase()} AFTER ${event} ON ${table} BEGIN
+            ${reindex(`${row}.file_id`)}
+          END;
+        `);
+      }
+
+      db.executeSync(`
+        INSERT INTO files_fts (rowid, caption, filename, notes, tags)
+        SELECT id, caption, filename, notes, tags FROM files_search_text;
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Add automatic tags from a label vocabulary',
+    up: (db) => {
+      // Label embeddings are cached so tagging never needs the model again
+      db.executeSync(`
+        CREATE TABLE IF NOT EXISTS auto_tag_labels (
+          name TEXT PRIMARY KEY,
+          description TEXT NOT NULL,
+          model TEXT NOT NULL,
+          min_similarity REAL NOT NULL,
+          embedding TEXT NOT NULL
+        );
+      `);
+      db.executeSync(`
+        CREATE TABLE IF NOT EXISTS file_auto_tags (
+          file_id INTEGER NOT NULL,
+          label TEXT NOT NULL,
+          score REAL NOT NULL,
+          PRIMARY KEY (file_id, label)
+        );
+      `);
+      db.executeSync(`
+        CREATE INDEX IF NOT EXISTS idx_file_auto_tags_label ON file_auto_tags(label);
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Store document type and key fields extracted from PDFs',
+    up: (db) => {
+      // amounts, dates and reference_numbers are JSON arrays
+      db.executeSync(`
+        CREATE TABLE document_fields (
+          file_id INTEGER PRIMARY KEY,
+          document_type TEXT NOT NULL,
+          counterparty TEXT,
+          total_amount REAL,
+          currency TEXT,
+          document_date INTEGER,
+          amounts TEXT NOT NULL,
+          dates TEXT NOT NULL,
+          reference_numbers TEXT NOT NULL,
+          FOREIGN KEY (file_id) REFERENCES files(id)
+        );
+      `);
+      db.executeSync('CREATE INDEX idx_document_fields_type ON document_fields(document_type)');
+      // Extracted alongside the caption, so it has to survive a resumed job too
+      db.executeSync('ALTER TABLE indexing_job_files ADD COLUMN document_fields TEXT');
+    },
+  },
+  {
+    version: 15,
+    description: 'Remember whether a saved search kept document words as text',
+    up: (db) => {
+      db.executeSync('ALTER TABLE saved_searches ADD COLUMN parse_documents INTEGER NOT NULL DEFAULT 1');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the schema version stored in the database header
+ */
+export const getSchemaVersion = (db: DB): number => {
+  const result = db.executeSync('PRAGMA user_version');
+  return (result.rows?.[0] as any)?.user_version || 0;
+};
+
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION.
+ * Each step runs in its own transaction; on failure that step is rolled back,
+ * the database stays at the last good version and the error is rethrown.
+ */
+export const runMigrations = (db: DB): void => {
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    // Opened by an older build after an upgrade - don't guess at the newer schema
+    throw new Error(
+      `Database schema v${currentVersion} is newer than this app supports (v${LATEST_SCHEMA_VERSION}). Please update the app.`
+    );
+  }
+
+  if (currentVersion === LATEST_SCHEMA_VERSION) {
+    console.log(`[DatabaseMigrations] Schema up to date (v${currentVersion})`);
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    console.log(`[DatabaseMigrations] Applying v${migration.version}: ${migration.description}`);
+    db.executeSync('BEGIN');
+
+    try {
+      migration.up(db);
+      // user_version is part of the transaction, so it only moves on COMMIT
+      db.executeSync(`PRAGMA user_version = ${migration.version}`);
+      db.executeSync('COMMIT');
+      console.log(`[DatabaseMigrations] Schema now at v${migration.version}`);
+    } catch (error) {
+      try {
+        db.executeSync('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('[DatabaseMigrations] Rollback failed:', rollbackError);
+      }
+      console.error(`[DatabaseMigrations] Migration v${migration.version} failed:`, error);
+      throw new Error(
+        `Database upgrade to v${migration.version} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+};
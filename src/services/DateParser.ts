@@ -0,0 +1,195 @@
+/**
+ * DateParser - Rule-based date expressions in search queries
+ *
+ * Handles:
+ * - Relative periods ("today", "last week", "this month", "past 3 days")
+ * - Months and years ("in March", "march 2024", "from 2023", "since may")
+ * - Removing the matched words so they don't end up in the query embedding
+ *
+ * Ranges use local time and apply to when a memory was indexed (created_at).
+ */
+
+import type { DateRange } from '../types';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+interface ResolvedRange {
+  start: Date;
+  end: Date; // exclusive
+  label: string;
+}
+
+interface DateRule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, now: Date) => ResolvedRange | null;
+}
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date): Date =>
+  addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+const subtractUnits = (date: Date, unit: Unit, count: number): Date => {
+  switch (unit) {
+    case 'day':
+      return addDays(date, -count);
+    case 'week':
+      return addDays(date, -7 * count);
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() - count, date.getDate());
+    case 'year':
+      return new Date(date.getFullYear() - count, date.getMonth(), date.getDate());
+  }
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const MONTH_PATTERN = MONTHS.join('|');
+
+/**
+ * Rules in priority order - the first one that matches and resolves wins
+ */
+const DATE_RULES: DateRule[] = [
+  {
+    // "last 3 days", "in the past two weeks"
+    pattern: /\b(?:(?:from|in|during|over|within)\s+)?(?:the\s+)?(?:last|past)\s+(\d+|a|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?|weeks?|months?|years?)\b/gi,
+    resolve: (match, now) => {
+      const count = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+      if (!count) return null;
+      const unit = match[2].toLowerCase().replace(/s$/, '') as Unit;
+      const today = startOfDay(now);
+      return {
+        start: subtractUnits(today, unit, count),
+        end: addDays(today, 1),
+        label: `Last ${count} ${unit}${count === 1 ? '' : 's'}`,
+      };
+    },
+  },
+  {
+    // "this week", "last month", "past year"
+    pattern: /\b(?:(?:from|in|during|over)\s+)?(?:the\s+)?(this|last|past)\s+(week|month|year)\b/gi,
+    resolve: (match, now) => {
+      const which = match[1].toLowerCase();
+      const unit = match[2].toLowerCase() as Unit;
+      const today = startOfDay(now);
+      const tomorrow = addDays(today, 1);
+
+      // "past" is a rolling window ending today
+      if (which === 'past') {
+        return { start: subtractUnits(today, unit, 1), end: tomorrow, label: `Past ${unit}` };
+      }
+
+      const periodStart =
+        unit === 'week' ? startOfWeek(today)
+          : unit === 'month' ? new Date(today.getFullYear(), today.getMonth(), 1)
+            : new Date(today.getFullYear(), 0, 1);
+
+      if (which === 'this') {
+        return { start: periodStart, end: tomorrow, label: `This ${unit}` };
+      }
+      return {
+        start: subtractUnits(periodStart, unit, 1),
+        end: periodStart,
+        label: `Last ${unit}`,
+      };
+    },
+  },
+  {
+    // "today", "from yesterday"
+    pattern: /\b(?:(?:from|on)\s+)?(today|yesterday)\b/gi,
+    resolve: (match, now) => {
+      const today = startOfDay(now);
+      return match[1].toLowerCase() === 'today'
+        ? { start: today, end: addDays(today, 1), label: 'Today' }
+        : { start: addDays(today, -1), end: today, label: 'Yesterday' };
+    },
+  },
+  {
+    // "in March", "march 2024", "since june"
+    pattern: new RegExp(`\\b(?:(in|from|during|since)\\s+)?(${MONTH_PATTERN})(?:\\s+((?:19|20)\\d{2}))?\\b`, 'gi'),
+    resolve: (match, now) => {
+      const preposition = match[1]?.toLowerCase();
+      const month = MONTHS.indexOf(match[2].toLowerCase());
+
+      // "may" on its own is far more likely to be the verb
+      if (month === 4 && !preposition && !match[3]) return null;
+
+      // Without a year, the most recent such month that has started
+      const year = match[3]
+        ? Number(match[3])
+        : month > now.getMonth() ? now.getFullYear() - 1 : now.getFullYear();
+
+      const start = new Date(year, month, 1);
+      const monthName = capitalize(MONTHS[month]);
+      if (preposition === 'since') {
+        return { start, end: addDays(startOfDay(now), 1), label: `Since ${monthName} ${year}` };
+      }
+      return { start, end: new Date(year, month + 1, 1), label: `${monthName} ${year}` };
+    },
+  },
+  {
+    // "in 2023", "since 2020" - a bare year could be part of a filename or invoice number
+    pattern: /\b(in|from|during|since)\s+((?:19|20)\d{2})\b/gi,
+    resolve: (match, now) => {
+      const year = Number(match[2]);
+      const start = new Date(year, 0, 1);
+      if (match[1].toLowerCase() === 'since') {
+        return { start, end: addDays(startOfDay(now), 1), label: `Since ${year}` };
+      }
+      return { start, end: new Date(year + 1, 0, 1), label: String(year) };
+    },
+  },
+];
+
+// Quoted text is an exact phrase - leave any dates inside it alone
+export const isInsideQuotes = (text: string, index: number): boolean =>
+  (text.slice(0, index).match(/"/g)?.length ?? 0) % 2 === 1;
+
+/**
+ * Find the first date expression in the text.
+ * Returns the range (null if none) and the text with the expression removed.
+ */
+export const extractDateRange = (
+  text: string,
+  now: Date = new Date()
+): { range: DateRange | null; remainder: string } => {
+  for (const rule of DATE_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = rule.pattern.exec(text)) !== null) {
+      if (isInsideQuotes(text, match.index)) continue;
+
+      const resolved = rule.resolve(match, now);
+      if (!resolved) continue;
+
+      rule.pattern.lastIndex = 0;
+      return {
+        range: {
+          start: resolved.start.getTime(),
+          end: resolved.end.getTime(),
+          label: resolved.label,
+          text: match[0],
+        },
+        remainder: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`,
+      };
+    }
+  }
+
+  return { range: null, remainder: text };
+};
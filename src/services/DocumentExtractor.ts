@@ -0,0 +1,597 @@
+/**
+ * DocumentExtractor - Rule-based understanding of PDF text
+ *
+ * Handles:
+ * - Classifying a document (invoice, receipt, bank statement, contract, ticket, letter)
+ * - Pulling out dates, currency amounts, the counterparty and reference numbers
+ * - Document words in search queries ("invoice over 500 from Acme")
+ *
+ * PdfTextExtractor collapses all whitespace, so there are no line breaks to
+ * go by - every rule works on words and labels instead.
+ */
+
+import type { DocumentFields, DocumentQuery, DocumentType } from '../types';
+import { isInsideQuotes } from './DateParser';
+
+interface TypeRule {
+  type: DocumentType;
+  signals: Array<[RegExp, number]>; // pattern (lowercase text) and its weight
+}
+
+// Each signal counts once; the best-scoring type wins if it reaches MIN_TYPE_SCORE
+const TYPE_RULES: TypeRule[] = [
+  {
+    type: 'invoice',
+    signals: [
+      [/\binvoice\b/, 3],
+      [/\bbill(ed)? to\b/, 2],
+      [/\b(amount|balance) due\b|\bdue date\b|\bpayment terms\b/, 2],
+      [/\bvat\b|\btax\b/, 1],
+    ],
+  },
+  {
+    type: 'receipt',
+    signals: [
+      [/\breceipt\b/, 3],
+      [/\bthank you for (your )?(purchase|shopping|visit)/, 2],
+      [/\bsubtotal\b/, 1],
+      [/\b(cash|change|visa|mastercard)\b/, 1],
+    ],
+  },
+  {
+    type: 'bank_statement',
+    signals: [
+      [/\b(account|bank) statement\b|\bstatement of account\b/, 3],
+      [/\b(opening|closing) balance\b/, 3],
+      [/\bstatement period\b/, 2],
+      [/\bsort code\b|\biban\b/, 1],
+    ],
+  },
+  {
+    type: 'contract',
+    signals: [
+      [/\bagreement\b|\bcontract\b/, 3],
+      [/\bhereinafter\b|\bwhereas\b|\bthe parties\b/, 2],
+      [/\bterms and conditions\b|\bshall\b/, 1],
+      [/\bsignature\b|\bsigned\b/, 1],
+    ],
+  },
+  {
+    type: 'ticket',
+    signals: [
+      [/\b(e-?)?tickets?\b|\bboarding pass\b/, 3],
+      [/\bbooking (reference|ref)\b|\bpnr\b/, 2],
+      [/\b(gate|seat|platform|departure|arrival|flight)\b/, 1],
+    ],
+  },
+  {
+    type: 'letter',
+    signals: [
+      [/\bdear\b/, 2],
+      [/\byours (sincerely|faithfully|truly)\b|\b(kind|best|warm) regards\b/, 3],
+    ],
+  },
+];
+
+const MIN_TYPE_SCORE = 3;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: 'Invoice',
+  receipt: 'Receipt',
+  bank_statement: 'Bank statement',
+  contract: 'Contract',
+  ticket: 'Ticket',
+  letter: 'Letter',
+  other: 'Document',
+};
+
+// Words accepted after doc: in the search box
+const DOCUMENT_TYPE_ALIASES: Record<string, DocumentType> = {
+  invoice: 'invoice',
+  invoices: 'invoice',
+  bill: 'invoice',
+  bills: 'invoice',
+  receipt: 'receipt',
+  receipts: 'receipt',
+  statement: 'bank_statement',
+  statements: 'bank_statement',
+  bank_statement: 'bank_statement',
+  contract: 'contract',
+  contracts: 'contract',
+  agreement: 'contract',
+  ticket: 'ticket',
+  tickets: 'ticket',
+  letter: 'letter',
+  letters: 'letter',
+  other: 'other',
+};
+
+export const parseDocumentType = (value: string): DocumentType | null =>
+  DOCUMENT_TYPE_ALIASES[value.toLowerCase()] ?? null;
+
+// Currencies: symbols and codes around a number
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '\u20AC': 'EUR',
+  '\u00A3': 'GBP',
+  '\u00A5': 'JPY',
+  '\u20B9': 'INR',
+};
+const CURRENCY_CODES = ['usd', 'eur', 'gbp', 'jpy', 'inr', 'chf', 'cad', 'aud'];
+const SYMBOL_CLASS = '[$\\u20AC\\u00A3\\u00A5\\u20B9]';
+const CURRENCY = `(${SYMBOL_CLASS}|\\b(?:${CURRENCY_CODES.join('|')})(?![a-z]))`;
+
+// 1,234.56 / 1.234,56 / 12.50 / 500 - with an optional currency before or after
+const AMOUNT_REGEX = new RegExp(
+  `${CURRENCY}?\\s?\\b(\\d{1,3}(?:[,.]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)(?!\\d|%)(?:\\s?${CURRENCY})?`,
+  'gi'
+);
+
+// Phrases the total follows, most specific first
+const TOTAL_REGEX = /\b(grand total|total due|total amount|amount due|balance due|total paid|amount paid|closing balance|total)\b/gi;
+// How far after a total label its amount may start
+const TOTAL_WINDOW = 40;
+
+const MONTH = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+interface DateRule {
+  pattern: RegExp;
+  // year, month (1-12) and day from the match
+  parts: (match: RegExpExecArray) => [number, number, number];
+}
+
+const monthNumber = (name: string): number => MONTH_PREFIXES.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+// Numeric dates are read day first (12/03/2024 is 12 March) unless that's impossible
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    parts: m => [Number(m[1]), Number(m[2]), Number(m[3])],
+  },
+  {
+    pattern: /\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/g,
+    parts: m => {
+      const first = Number(m[1]);
+      const second = Number(m[2]);
+      const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+      return second > 12 ? [year, first, second] : [year, second, first];
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH},?\\s+(\\d{4})\\b`, 'gi'),
+    parts: m => [Number(m[3]), monthNumber(m[2]), Number(m[1])],
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    parts: m => [Number(m[3]), monthNumber(m[1]), Number(m[2])],
+  },
+];
+
+// Labels a counterparty name follows
+const COUNTERPARTY_LABEL_REGEX =
+  /\b(?:from|seller|vendor|merchant|payee|supplier|company)\s*:\s*|\b(?:bill(?:ed)? from|sold by|issued by)\s*:?\s*/gi;
+
+// Capitalized words ending in a company suffix ("Acme Widgets Ltd")
+const COMPANY_REGEX =
+  /\b((?:[A-Z][\w&'-]*\s+){0,3}[A-Z][\w&'-]*,?\s+(?:Ltd|Limited|Inc|LLC|GmbH|PLC|Plc|Corp|Corporation|Pvt|AG|BV|SA|SAS)\b\.?)/;
+
+// Heading words that are never part of a name
+const NAME_STOP_WORDS = new Set([
+  'invoice', 'receipt', 'tax', 'statement', 'bank', 'account', 'contract', 'agreement',
+  'ticket', 'letter', 'from', 'to', 'bill', 'date', 'page', 'order', 'customer', 'total',
+]);
+
+const MAX_NAME_WORDS = 4;
+const MAX_REFERENCES = 5;
+
+// Labels a reference number follows ("Invoice No: INV-0042", "Booking ref ABC123")
+const REFERENCE_REGEX =
+  /\b(?:invoice|order|account|acct|booking|reference|ref|policy|customer|receipt|transaction|confirmation|ticket|flight)\s*(?:no\.?|number|num|nr|#|id|code)?\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-\/]{3,})/gi;
+
+/**
+ * Pick the document type from weighted keyword signals in the text and filename
+ */
+export const classifyDocument = (text: string, filename = ''): DocumentType => {
+  const haystack = `${filename.replace(/[_-]/g, ' ')} ${text}`.toLowerCase();
+
+  let best: DocumentType = 'other';
+  let bestScore = 0;
+  for (const rule of TYPE_RULES) {
+    const score = rule.signals.reduce(
+      (sum, [pattern, weight]) => (pattern.test(haystack) ? sum + weight : sum),
+      0
+    );
+    if (score > bestScore) {
+      best = rule.type;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= MIN_TYPE_SCORE ? best : 'other';
+};
+
+// Local midnight for a calendar date, or null if it doesn't exist
+const makeDate = (year: number, month: number, day: number): number | null => {
+  if (year < 1970 || year > 2100) return null;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date.getTime();
+};
+
+interface Found<T> {
+  value: T;
+  start: number;
+  end: number;
+}
+
+const findDates = (text: string): Array<Found<number>> => {
+  const found: Array<Found<number>> = [];
+  for (const rule of DATE_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const [year, month, day] = rule.parts(match);
+      const time = makeDate(year, month, day);
+      const start = match.index;
+      const end = start + match[0].length;
+      // Rules can overlap (a spelled-out date contains a number) - first rule wins
+      if (time !== null && !found.some(f => start < f.end && end > f.start)) {
+        found.push({ value: time, start, end });
+      }
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Read a number whose last separator followed by 1-2 digits is the decimal point
+ * ("1,234.56" and "1.234,56" are both 1234.56)
+ */
+const parseNumber = (raw: string): number | null => {
+  const match = /^(.*?)(?:[.,](\d{1,2}))?$/.exec(raw);
+  if (!match) return null;
+  const whole = match[1].replace(/[.,]/g, '');
+  const value = Number(match[2] ? `${whole}.${match[2]}` : whole);
+  return Number.isFinite(value) ? value : null;
+};
+
+const toCurrency = (marker: string | undefined): string | null => {
+  if (!marker) return null;
+  return CURRENCY_SYMBOLS[marker] ?? marker.toUpperCase();
+};
+
+interface Amount {
+  value: number;
+  currency: string | null;
+}
+
+/**
+ * Currency amounts - numbers with a currency marker or exactly two decimals.
+ * Dates should be blanked out first so 12.03.2024 isn't read as 12.03.
+ */
+const findAmounts = (text: string): Array<Found<Amount>> => {
+  const found: Array<Found<Amount>> = [];
+  AMOUNT_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_REGEX.exec(text)) !== null) {
+    const currency = toCurrency(match[1] ?? match[3]);
+    const hasCents = /[.,]\d{2}$/.test(match[2]);
+    const value = parseNumber(match[2]);
+    if (value !== null && value > 0 && (currency || hasCents)) {
+      found.push({ value: { value, currency }, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return found;
+};
+
+// The amount after a total label (the largest if there are several), else the largest overall
+const findTotal = (text: string, amounts: Array<Found<Amount>>): Amount | null => {
+  if (amounts.length === 0) return null;
+
+  const labelled: Amount[] = [];
+  TOTAL_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOTAL_REGEX.exec(text)) !== null) {
+    const labelEnd = match.index + match[0].length;
+    const next = amounts.find(a => a.start >= labelEnd && a.start - labelEnd <= TOTAL_WINDOW);
+    if (next) labelled.push(next.value);
+  }
+
+  const pool = labelled.length > 0 ? labelled : amounts.map(a => a.value);
+  return pool.reduce((best, amount) => (amount.value > best.value ? amount : best));
+};
+
+/**
+ * Take a name from the start of text: up to MAX_NAME_WORDS capitalized words,
+ * stopping at the next label ("Date:") or a number
+ */
+const takeName = (text: string): string | null => {
+  const words: string[] = [];
+  for (const word of text.split(' ').slice(0, MAX_NAME_WORDS)) {
+    if (!/^[A-Z0-9&\u00C0-\u024F]/.test(word) || word.endsWith(':')) break;
+    if (words.length > 0 && /^\d/.test(word)) break;
+    if (words.length === 0 && NAME_STOP_WORDS.has(word.toLowerCase())) break;
+    words.push(word);
+  }
+
+  const name = words.join(' ').replace(/[,;:]+$/, '');
+  return /[a-z\u00C0-\u024F].*[a-z\u00C0-\u024F]/i.test(name) ? name : null;
+};
+
+const findCounterparty = (text: string, documentType: DocumentType): string | null => {
+  // "From: Acme Ltd", "Merchant: Corner Shop"
+  COUNTERPARTY_LABEL_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = COUNTERPARTY_LABEL_REGEX.exec(text)) !== null) {
+    const name = takeName(text.slice(match.index + match[0].length));
+    if (name) return name;
+  }
+
+  // A registered company name anywhere in the text
+  const company = COMPANY_REGEX.exec(text);
+  if (company) {
+    const words = company[1].split(/\s+/);
+    while (words.length > 1 && NAME_STOP_WORDS.has(words[0].toLowerCase())) {
+      words.shift();
+    }
+    return words.join(' ');
+  }
+
+  // Receipts start with the shop's name
+  if (documentType === 'receipt') {
+    const words = text.trim().split(' ');
+    while (words.length > 0 && NAME_STOP_WORDS.has(words[0].toLowerCase())) {
+      words.shift();
+    }
+    return takeName(words.join(' '));
+  }
+
+  return null;
+};
+
+const findReferences = (text: string): string[] => {
+  const references: string[] = [];
+  REFERENCE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = REFERENCE_REGEX.exec(text)) !== null && references.length < MAX_REFERENCES) {
+    const reference = match[1].replace(/[-/]+$/, '');
+    if (!/\d/.test(reference)) {
+      // A second label word ("Booking reference ABC123") - look again from it
+      REFERENCE_REGEX.lastIndex = match.index + match[0].length - match[1].length;
+      continue;
+    }
+    if (!references.includes(reference)) {
+      references.push(reference);
+    }
+  }
+  return references;
+};
+
+// Replace matched spans with spaces so later rules don't see them
+const blankOut = (text: string, spans: Array<{ start: number; end: number }>): string => {
+  let result = text;
+  for (const span of spans) {
+    result = result.slice(0, span.start) + ' '.repeat(span.end - span.start) + result.slice(span.end);
+  }
+  return result;
+};
+
+/**
+ * Classify a PDF and pull its key fields out of the extracted text
+ */
+export const extractDocumentFields = (text: string, filename = ''): DocumentFields => {
+  const documentType = classifyDocument(text, filename);
+
+  const dates = findDates(text);
+  const withoutDates = blankOut(text, dates);
+  const amounts = findAmounts(withoutDates);
+  const total = findTotal(withoutDates, amounts);
+
+  return {
+    documentType,
+    counterparty: findCounterparty(text, documentType),
+    totalAmount: total?.value ?? null,
+    currency: total?.currency ?? amounts.find(a => a.value.currency)?.value.currency ?? null,
+    documentDate: dates[0]?.value ?? null,
+    amounts: amounts.map(a => a.value.value),
+    dates: dates.map(d => d.value),
+    referenceNumbers: findReferences(withoutDates),
+  };
+};
+
+/**
+ * One-line summary for the caption, e.g. "Invoice from Acme Ltd, total 512.00 EUR"
+ */
+export const describeDocument = (fields: DocumentFields): string | null => {
+  if (fields.documentType === 'other' && !fields.counterparty) {
+    return null;
+  }
+
+  let summary = DOCUMENT_TYPE_LABELS[fields.documentType];
+  if (fields.counterparty) {
+    summary += ` from ${fields.counterparty}`;
+  }
+  if (fields.totalAmount !== null) {
+    summary += `, total ${fields.totalAmount.toFixed(2)}${fields.currency ? ` ${fields.currency}` : ''}`;
+  }
+  return summary;
+};
+
+// ============================================
+// Search queries
+// ============================================
+
+// Document words in a query - plural forms too
+const QUERY_TYPE_RULES: Array<[RegExp, DocumentType]> = [
+  [/\b(bank )?statements?\b/i, 'bank_statement'],
+  [/\b(invoices?|bills?)\b/i, 'invoice'],
+  [/\breceipts?\b/i, 'receipt'],
+  [/\b(contracts?|agreements?)\b/i, 'contract'],
+  [/\b(tickets?|boarding pass(es)?)\b/i, 'ticket'],
+  [/\bletters?\b/i, 'letter'],
+];
+
+const QUERY_CURRENCY_WORDS = [...CURRENCY_CODES, 'dollars', 'euros', 'pounds', 'rupees'].join('|');
+const QUERY_AMOUNT = `${SYMBOL_CLASS}?\\s?(\\d[\\d,]*(?:\\.\\d+)?)(?:\\s?(?:${QUERY_CURRENCY_WORDS})\\b)?`;
+const BETWEEN_REGEX = new RegExp(`\\bbetween\\s+${QUERY_AMOUNT}\\s+and\\s+${QUERY_AMOUNT}`, 'gi');
+const MIN_AMOUNT_REGEX = new RegExp(
+  `\\b(?:over|above|more than|greater than|at least|exceeding)\\s+${QUERY_AMOUNT}`,
+  'gi'
+);
+const MAX_AMOUNT_REGEX = new RegExp(`\\b(?:under|below|less than|at most|up to)\\s+${QUERY_AMOUNT}`, 'gi');
+const QUERY_CURRENCY_REGEX = new RegExp(`${SYMBOL_CLASS}|\\b(?:${QUERY_CURRENCY_WORDS})\\b`, 'i');
+
+// Words that end a "from <name>" clause
+const FROM_STOP_WORDS = new Set([
+  'over', 'above', 'under', 'below', 'between', 'more', 'less', 'at', 'up',
+  'in', 'on', 'for', 'with', 'and', 'about', 'dated', 'since', 'before', 'after',
+  'last', 'this', 'of',
+]);
+
+// First match of a global pattern outside "quoted phrases"
+const findUnquoted = (text: string, pattern: RegExp): RegExpExecArray | null => {
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!isInsideQuotes(text, match.index)) {
+      pattern.lastIndex = 0;
+      return match;
+    }
+  }
+  return null;
+};
+
+const cut = (text: string, start: number, end: number): string =>
+  `${text.slice(0, start)} ${text.slice(end)}`;
+
+const findQueryType = (text: string): { type: DocumentType; match: RegExpExecArray } | null => {
+  for (const [pattern, type] of QUERY_TYPE_RULES) {
+    const match = findUnquoted(text, new RegExp(pattern.source, 'gi'));
+    if (match) return { type, match };
+  }
+  return null;
+};
+
+// "from Acme Corp" - the name runs until a stop word, a document word or a quote
+const findFromClause = (text: string): { name: string; start: number; end: number } | null => {
+  const from = findUnquoted(text, /\bfrom\s+/gi);
+  if (!from) return null;
+
+  const words: string[] = [];
+  let end = from.index;
+  const wordRegex = /\S+/g;
+  wordRegex.lastIndex = from.index + from[0].length;
+  let match: RegExpExecArray | null;
+  while (words.length < MAX_NAME_WORDS && (match = wordRegex.exec(text)) !== null) {
+    const lower = match[0].toLowerCase();
+    if (
+      lower.includes('"') ||
+      FROM_STOP_WORDS.has(lower) ||
+      QUERY_TYPE_RULES.some(([pattern]) => pattern.test(lower))
+    ) {
+      break;
+    }
+    words.push(match[0]);
+    end = match.index + match[0].length;
+  }
+
+  return words.length > 0 ? { name: words.join(' '), start: from.index, end } : null;
+};
+
+const queryNumber = (raw: string): number => Number(raw.replace(/,/g, ''));
+
+const formatAmount = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+/**
+ * Find document constraints in query text and remove their words.
+ * Amounts ("over 500") only count next to a document word or with a currency,
+ * so "people over 60" stays a plain search. "from <name>" likewise needs a
+ * document word or an amount, so "photos from Paris" stays one too.
+ * A document word on its own also stays in the text - the embedding handles it.
+ */
+export const extractDocumentQuery = (
+  text: string
+): { query: DocumentQuery | null; remainder: string } => {
+  let remainder = text;
+  const parsedWords: string[] = [];
+  let minAmount: number | null = null;
+  let maxAmount: number | null = null;
+
+  const hasDocumentWord = findQueryType(text) !== null;
+  const isMoney = (phrase: string): boolean =>
+    hasDocumentWord || QUERY_CURRENCY_REGEX.test(phrase);
+
+  const between = findUnquoted(remainder, BETWEEN_REGEX);
+  if (between && isMoney(between[0])) {
+    minAmount = queryNumber(between[1]);
+    maxAmount = queryNumber(between[2]);
+    parsedWords.push(between[0]);
+    remainder = cut(remainder, between.index, between.index + between[0].length);
+  } else {
+    for (const pattern of [MIN_AMOUNT_REGEX, MAX_AMOUNT_REGEX]) {
+      const match = findUnquoted(remainder, pattern);
+      if (!match || !isMoney(match[0])) continue;
+      if (pattern === MIN_AMOUNT_REGEX) {
+        minAmount = queryNumber(match[1]);
+      } else {
+        maxAmount = queryNumber(match[1]);
+      }
+      parsedWords.push(match[0]);
+      remainder = cut(remainder, match.index, match.index + match[0].length);
+    }
+  }
+
+  const hasAmount = minAmount !== null || maxAmount !== null;
+  let counterparty: string | null = null;
+  if (hasAmount || findQueryType(remainder)) {
+    const from = findFromClause(remainder);
+    if (from) {
+      counterparty = from.name;
+      parsedWords.push(remainder.slice(from.start, from.end));
+      remainder = cut(remainder, from.start, from.end);
+    }
+  }
+
+  if (!hasAmount && !counterparty) {
+    return { query: null, remainder: text };
+  }
+
+  const queryType = findQueryType(remainder);
+  const documentType = queryType?.type ?? null;
+  if (queryType) {
+    parsedWords.unshift(queryType.match[0]);
+    remainder = cut(
+      remainder,
+      queryType.match.index,
+      queryType.match.index + queryType.match[0].length
+    );
+  }
+
+  let label = documentType ? `${DOCUMENT_TYPE_LABELS[documentType]}s` : 'Documents';
+  if (minAmount !== null && maxAmount !== null) {
+    label += ` between ${formatAmount(minAmount)} and ${formatAmount(maxAmount)}`;
+  } else if (minAmount !== null) {
+    label += ` over ${formatAmount(minAmount)}`;
+  } else if (maxAmount !== null) {
+    label += ` under ${formatAmount(maxAmount)}`;
+  }
+  if (counterparty) {
+    label += ` from ${counterparty}`;
+  }
+
+  return {
+    query: {
+      documentType,
+      minAmount,
+      maxAmount,
+      counterparty,
+      label,
+      text: parsedWords.join(' '),
+    },
+    remainder,
+  };
+};
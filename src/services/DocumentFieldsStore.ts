@@ -0,0 +1,79 @@
+/**
+ * DocumentFieldsStore - Structured fields extracted from PDFs
+ *
+ * Handles:
+ * - One document_fields row per PDF (type, counterparty, total, dates, references)
+ * - Finding PDFs indexed before extraction existed, to fill them in
+ *
+ * Search filters read the table directly (see buildFilterClause).
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import type { DocumentFields, DocumentType } from '../types';
+
+export const saveDocumentFields = (db: DB, fileId: number, fields: DocumentFields): void => {
+  db.executeSync(
+    `INSERT OR REPLACE INTO document_fields
+       (file_id, document_type, counterparty, total_amount, currency, document_date,
+        amounts, dates, reference_numbers)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      fileId,
+      fields.documentType,
+      fields.counterparty,
+      fields.totalAmount,
+      fields.currency,
+      fields.documentDate,
+      JSON.stringify(fields.amounts),
+      JSON.stringify(fields.dates),
+      JSON.stringify(fields.referenceNumbers),
+    ]
+  );
+};
+
+export const getDocumentFields = (db: DB, fileId: number): DocumentFields | null => {
+  const result = db.executeSync('SELECT * FROM document_fields WHERE file_id = ?', [fileId]);
+  const row = result.rows?.[0] as any;
+  if (!row) {
+    return null;
+  }
+
+  return {
+    documentType: row.document_type as DocumentType,
+    counterparty: row.counterparty ?? null,
+    totalAmount: row.total_amount ?? null,
+    currency: row.currency ?? null,
+    documentDate: row.document_date ?? null,
+    amounts: JSON.parse(row.amounts),
+    dates: JSON.parse(row.dates),
+    referenceNumbers: JSON.parse(row.reference_numbers),
+  };
+};
+
+/**
+ * PDFs with no extracted fields yet (indexed before extraction existed)
+ */
+export const getPdfsWithoutFields = (
+  db: DB
+): Array<{ id: number; filename: string; caption: string | null }> => {
+  const result = db.executeSync(
+    `SELECT id, filename, caption FROM files
+     WHERE file_type = 'pdf' AND id NOT IN (SELECT file_id FROM document_fields)`
+  );
+  return (result.rows || []).map((row: any) => ({
+    id: row.id,
+    filename: row.filename,
+    caption: row.caption ?? null,
+  }));
+};
+
+export const deleteDocumentFields = (db: DB, fileIds: number[]): void => {
+  if (fileIds.length === 0) return;
+  const placeholders = fileIds.map(() => '?').join(', ');
+  db.executeSync(`DELETE FROM document_fields WHERE file_id IN (${placeholders})`, fileIds);
+};
+
+export const clearDocumentFields = (db: DB): void => {
+  db.executeSync('DELETE FROM document_fields');
+};
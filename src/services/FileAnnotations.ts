@@ -0,0 +1,152 @@
+/**
+ * FileAnnotations - User notes and tags on memories
+ *
+ * Handles:
+ * - One free-form note per memory
+ * - Tags shared across memories (case-insensitive names)
+ * - The text embedded for a memory (caption plus its note and tags)
+ *
+ * Keyword search picks changes up by itself - triggers on these tables
+ * re-index the file in files_fts.
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import type { Tag } from '../types';
+
+// Tags are single short labels - collapse whitespace and cap the length
+const MAX_TAG_LENGTH = 40;
+
+export const cleanTagName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Text to embed for a memory - notes and tags count towards what it means
+ */
+export const composeEmbeddingText = (
+  caption: string,
+  note: string | null,
+  tags: string[]
+): string => {
+  const parts = [caption];
+  if (tags.length > 0) {
+    parts.push(`Tags: ${tags.join(', ')}`);
+  }
+  if (note) {
+    parts.push(`Notes: ${note}`);
+  }
+  return parts.join('\n');
+};
+
+export const getNote = (db: DB, fileId: number): string | null => {
+  const result = db.executeSync('SELECT note FROM file_notes WHERE file_id = ?', [fileId]);
+  return ((result.rows?.[0] as any)?.note as string | undefined) ?? null;
+};
+
+/**
+ * Save a memory's note - an empty note removes it
+ */
+export const setNote = (db: DB, fileId: number, note: string): void => {
+  const text = note.trim();
+  if (!text) {
+    db.executeSync('DELETE FROM file_notes WHERE file_id = ?', [fileId]);
+    return;
+  }
+
+  db.executeSync(
+    `INSERT INTO file_notes (file_id, note, updated_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT (file_id) DO UPDATE SET
+       note = excluded.note,
+       updated_at = excluded.updated_at`,
+    [fileId, text, Date.now()]
+  );
+};
+
+export const getFileTags = (db: DB, fileId: number): string[] => {
+  const result = db.executeSync(
+    `SELECT t.name
+     FROM file_tags ft
+     INNER JOIN tags t ON t.id = ft.tag_id
+     WHERE ft.file_id = ?
+     ORDER BY ft.created_at`,
+    [fileId]
+  );
+  return (result.rows || []).map((row: any) => row.name as string);
+};
+
+/**
+ * Tag a memory, creating the tag if it's new (an existing tag keeps its spelling)
+ */
+export const addFileTag = (db: DB, fileId: number, name: string): void => {
+  const cleaned = cleanTagName(name);
+  if (!cleaned) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const now = Date.now();
+  db.executeSync(
+    'INSERT INTO tags (name, created_at) VALUES (?, ?) ON CONFLICT (name) DO NOTHING',
+    [cleaned, now]
+  );
+  db.executeSync(
+    `INSERT OR IGNORE INTO file_tags (file_id, tag_id, created_at)
+     SELECT ?, id, ? FROM tags WHERE name = ?`,
+    [fileId, now, cleaned]
+  );
+};
+
+export const removeFileTag = (db: DB, fileId: number, name: string): void => {
+  db.executeSync(
+    `DELETE FROM file_tags
+     WHERE file_id = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)`,
+    [fileId, cleanTagName(name)]
+  );
+};
+
+/**
+ * All tags with how many memories use each, most used first
+ */
+export const getAllTags = (db: DB): Tag[] => {
+  const result = db.executeSync(
+    `SELECT t.id, t.name, COUNT(ft.file_id) AS file_count
+     FROM tags t
+     LEFT JOIN file_tags ft ON ft.tag_id = t.id
+     GROUP BY t.id
+     ORDER BY file_count DESC, t.name`
+  );
+  return (result.rows || []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    fileCount: row.file_count,
+  }));
+};
+
+/**
+ * Ids of the memories carrying a tag (their embeddings change when it goes)
+ */
+export const getTaggedFileIds = (db: DB, tagId: number): number[] => {
+  const result = db.executeSync('SELECT file_id FROM file_tags WHERE tag_id = ?', [tagId]);
+  return (result.rows || []).map((row: any) => row.file_id as number);
+};
+
+export const deleteTag = (db: DB, tagId: number): void => {
+  db.executeSync('DELETE FROM file_tags WHERE tag_id = ?', [tagId]);
+  db.executeSync('DELETE FROM tags WHERE id = ?', [tagId]);
+};
+
+/**
+ * Remove notes and tag links of deleted memories
+ */
+export const deleteFileAnnotations = (db: DB, fileIds: number[]): void => {
+  if (fileIds.length === 0) return;
+  const placeholders = fileIds.map(() => '?').join(', ');
+  db.executeSync(`DELETE FROM file_notes WHERE file_id IN (${placeholders})`, fileIds);
+  db.executeSync(`DELETE FROM file_tags WHERE file_id IN (${placeholders})`, fileIds);
+};
+
+export const clearAnnotations = (db: DB): void => {
+  db.executeSync('DELETE FROM file_notes');
+  db.executeSync('DELETE FROM file_tags');
+  db.executeSync('DELETE FROM tags');
+};
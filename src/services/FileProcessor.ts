@@ -5,14 +5,17 @@
  * - Document picker for selecting images and PDFs
  * - File validation
  * - File type detection
+ * - Copying files into the managed library folder
  */
 
 import DocumentPicker, {
   types,
   type DocumentPickerResponse,
 } from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
 
 import {
+  LIBRARY_DIR,
   MAX_FILES,
   SUPPORTED_IMAGE_TYPES,
   SUPPORTED_PDF_TYPES,
@@ -46,11 +49,13 @@ const toSelectedFile = (doc: DocumentPickerResponse): SelectedFile | null => {
   }
 
   return {
-    uri: doc.uri,
+    // Use the copied URI if available (more reliable)
+    uri: doc.fileCopyUri || doc.uri,
     name: doc.name || 'unknown',
     type: fileType,
     mimeType,
     size: doc.size || 0,
+    sourceUri: doc.uri,
   };
 };
 
@@ -62,20 +67,14 @@ export const pickFiles = async (): Promise<SelectedFile[]> => {
     const results = await DocumentPicker.pick({
       type: [types.images, types.pdf],
       allowMultiSelection: true,
-      copyTo: 'cachesDirectory', // Copy to cache for reliable access
+      copyTo: 'cachesDirectory', // Temporary copy - moved to the library when indexed
     });
 
     // Filter and convert to SelectedFile
     const selectedFiles: SelectedFile[] = [];
 
     for (const doc of results) {
-      // Use the copied URI if available (more reliable)
-      const uri = doc.fileCopyUri || doc.uri;
-      
-      const selected = toSelectedFile({
-        ...doc,
-        uri,
-      });
+      const selected = toSelectedFile(doc);
 
       if (selected) {
         selectedFiles.push(selected);
@@ -102,6 +101,27 @@ export const pickFiles = async (): Promise<SelectedFile[]> => {
   }
 };
 
+/**
+ * Open document picker for a single image to search with
+ * The file is read in place - nothing is copied into the library
+ */
+export const pickImage = async (): Promise<SelectedFile | null> => {
+  try {
+    const doc = await DocumentPicker.pickSingle({
+      type: types.images,
+    });
+    return toSelectedFile(doc);
+  } catch (error) {
+    if (DocumentPicker.isCancel(error)) {
+      console.log('[FileProcessor] User cancelled picker');
+      return null;
+    }
+
+    console.error('[FileProcessor] Error picking image:', error);
+    throw error;
+  }
+};
+
 /**
  * Validate selected files
  */
@@ -164,3 +184,51 @@ export const formatFileSize = (bytes: number): string => {
   }
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
+
+/**
+ * Directory holding durable copies of indexed files
+ */
+export const getLibraryDir = (): string => `${RNFS.DocumentDirectoryPath}/${LIBRARY_DIR}`;
+
+/**
+ * Whether a URI points inside app documents storage (library, thumbnails)
+ */
+export const isManagedFile = (uri: string): boolean => {
+  return uri.replace('file://', '').startsWith(RNFS.DocumentDirectoryPath);
+};
+
+/**
+ * Copy a picked file into the library folder so it survives the OS
+ * clearing caches. Named by content hash when known, so the same content
+ * always maps to the same path. The picker's cache copy is removed.
+ */
+export const copyToLibrary = async (file: SelectedFile): Promise<SelectedFile> => {
+  const libraryDir = getLibraryDir();
+  if (!(await RNFS.exists(libraryDir))) {
+    await RNFS.mkdir(libraryDir);
+  }
+
+  const extension = file.name.includes('.')
+    ? file.name.split('.').pop()!.toLowerCase()
+    : file.type === 'pdf' ? 'pdf' : 'jpg';
+  const baseName = file.contentHash
+    || `${Date.now()}_${file.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+  const libraryPath = `${libraryDir}/${baseName}.${extension}`;
+
+  const sourcePath = file.uri.startsWith('content://') ? file.uri : file.uri.replace('file://', '');
+  if (!(await RNFS.exists(libraryPath))) {
+    await RNFS.copyFile(sourcePath, libraryPath);
+  }
+
+  // Drop the picker's temporary copy
+  if (sourcePath.startsWith(RNFS.CachesDirectoryPath)) {
+    RNFS.unlink(sourcePath).catch(() => {});
+  }
+
+  console.log(`[FileProcessor] Copied ${file.name} to library: ${libraryPath}`);
+  return {
+    ...file,
+    uri: `file://${libraryPath}`,
+    sourceUri: file.sourceUri ?? file.uri,
+  };
+};
@@ -5,8 +5,11 @@
  * - Model loading/unloading (SmolVLM2 for vision, Qwen3 for embeddings)
  * - Batch processing strategy (vision first, then embeddings)
  * - SQLite + sqlite-vec for vector storage and search
+ * - FTS5 full-text index for keyword matching
+ * - Automatic tags from a label vocabulary (compared with file vectors)
  * - Thermal management with cooldown periods
  * - PDF text extraction using native module
+ * - Document type and key fields pulled from PDF text
  */
 
 import { open, type DB } from '@op-engineering/op-sqlite';
@@ -24,23 +27,120 @@ import {
   COOL_DOWN_EMBED_MS,
   COOL_DOWN_MODEL_SWITCH_MS,
   SEARCH_RESULTS_LIMIT,
+  SEARCH_CANDIDATE_LIMIT,
+  SEARCH_MAX_CANDIDATES,
+  SEARCH_MIN_RELEVANCE,
+  SEMANTIC_SIMILARITY_FLOOR,
+  SEMANTIC_SIMILARITY_CEILING,
+  RRF_K,
   DB_NAME,
   VISION_CAPTION_PROMPT,
   USE_VISION_MODEL,
   VISION_MAX_TOKENS,
   PDF_MAX_CHARS,
+  CAPTION_SOURCE_PDF_TEXT,
+  CAPTION_SOURCE_FILENAME,
+  THUMBNAIL_DIR,
+  THUMBNAIL_SIZE,
+  THUMBNAIL_QUALITY,
 } from '../constants/config';
 
+import { runMigrations } from './DatabaseMigrations';
+import { QueryEmbeddingCache } from './QueryEmbeddingCache';
+import { clearSearchHistory, deleteSearch, getSuggestions, recordSearch } from './SearchHistory';
+import { deleteSavedSearch, getSavedSearches, saveSearch } from './SavedSearches';
+import {
+  addFileTag,
+  clearAnnotations,
+  cleanTagName,
+  composeEmbeddingText,
+  deleteFileAnnotations,
+  deleteTag,
+  getAllTags,
+  getFileTags,
+  getNote,
+  getTaggedFileIds,
+  removeFileTag,
+  setNote,
+} from './FileAnnotations';
+import {
+  clearAutoTags,
+  deleteFileAutoTags,
+  getAutoTags,
+  getFileAutoTags,
+  getLabelsToEmbed,
+  isVocabularyCurrent,
+  retagAllFiles,
+  saveLabelEmbedding,
+  tagFile,
+} from './AutoTagger';
+import { describeDocument, extractDocumentFields } from './DocumentExtractor';
+import {
+  clearDocumentFields,
+  deleteDocumentFields,
+  getDocumentFields,
+  getPdfsWithoutFields,
+  saveDocumentFields,
+} from './DocumentFieldsStore';
+import { copyToLibrary, getLibraryDir, isManagedFile } from './FileProcessor';
+import {
+  buildFilterClause,
+  buildFtsQuery,
+  findMatchedTerms,
+  hasFilters,
+  parseQueryTerms,
+  parseSearchQuery,
+  plainTextQuery,
+} from './QueryParser';
+
 import type {
   SelectedFile,
+  FileType,
   FileRecord,
+  FileDetails,
   SearchResult,
+  SearchOptions,
+  SearchPage,
+  ImageSearchPage,
+  ParsedQuery,
+  DocumentFields,
+  SearchSuggestion,
+  SavedSearch,
+  Tag,
+  AutoTag,
+  QueryTerm,
+  MatchExplanation,
   CaptionedFile,
   EmbeddedFile,
   ProcessingProgress,
   ProcessingPhase,
+  IndexingSummary,
+  IndexingJobInfo,
+  IndexingFailure,
+  JobFileStatus,
 } from '../types';
 
+// Row in indexing_job_files - one per file in a persisted indexing job
+interface JobFileRow {
+  id: number;
+  job_id: number;
+  uri: string;
+  filename: string;
+  file_type: FileType;
+  mime_type: string;
+  size: number;
+  content_hash: string | null;
+  source_uri: string | null;
+  status: JobFileStatus;
+  caption: string | null;
+  caption_model: string | null;
+  thumbnail: string | null;
+  document_fields: string | null;
+  embedding: string | null;
+  error: string | null;
+  file_id: number | null;
+}
+
 // Native module for PDF text extraction
 const { PdfTextExtractor } = NativeModules;
 
@@ -70,6 +170,23 @@ const resizeImageForVision = async (uri: string): Promise<string> => {
   }
 };
 
+// Directory holding generated thumbnails
+const getThumbnailDir = (): string => `${RNFS.DocumentDirectoryPath}/${THUMBNAIL_DIR}`;
+
+// Delete a file we created (library copy, thumbnail), ignoring ones already gone.
+// Anything outside app documents storage is the user's own file and is never touched.
+const removeManagedFile = async (uri: string | null | undefined): Promise<void> => {
+  if (!uri || !isManagedFile(uri)) return;
+  const path = uri.replace('file://', '');
+  try {
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+  } catch (error) {
+    console.warn('[MemoryEngine] Failed to remove file:', path, error);
+  }
+};
+
 // Convert content:// URI to a file path that Cactus can read
 const getReadableFilePath = async (uri: string, filename: string): Promise<string> => {
   // If it's already a file path, return as-is
@@ -91,49 +208,87 @@ const getReadableFilePath = async (uri: string, filename: string): Promise<strin
   }
 };
 
+// Hash file contents so the same file picked twice is only indexed once
+const hashFileContents = async (uri: string, filename: string): Promise<string> => {
+  const path = await getReadableFilePath(uri, filename);
+  try {
+    return await RNFS.hash(path, 'sha256');
+  } finally {
+    // Remove the temp copy made for content:// URIs
+    if (path !== uri.replace('file://', '')) {
+      RNFS.unlink(path).catch(() => {});
+    }
+  }
+};
+
+// Rebuild the picked file from its persisted job row
+const jobFileToSelectedFile = (row: JobFileRow): SelectedFile => ({
+  uri: row.uri,
+  name: row.filename,
+  type: row.file_type,
+  mimeType: row.mime_type,
+  size: row.size,
+  contentHash: row.content_hash,
+  sourceUri: row.source_uri,
+});
+
+// Caption for an image when the vision model is switched off
+const filenameCaption = (filename: string): string =>
+  `Image: ${filename.replace(/\.[^.]+$/, '').replace(/[_-]/g, ' ')}`;
+
+// Stable thumbnail file name for a job file
+const thumbnailName = (row: JobFileRow): string =>
+  row.content_hash || `job${row.job_id}_${row.id}`;
+
 // Convert number array to JSON string for storage
 const vectorToJson = (vector: number[]): string => {
   return JSON.stringify(vector);
 };
 
-// Convert JSON string back to number array
-const jsonToVector = (json: string): number[] => {
-  return JSON.parse(json);
-};
+// Candidates to fetch so a page at offset/limit is still full after the relevance cutoff
+const getCandidateLimit = (offset: number, limit: number): number =>
+  Math.min(SEARCH_MAX_CANDIDATES, Math.max(SEARCH_CANDIDATE_LIMIT, (offset + limit) * 2));
 
-// Calculate cosine similarity between two vectors
-const cosineSimilarity = (a: number[], b: number[]): number => {
-  if (a.length !== b.length) return 0;
-  
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  return denominator === 0 ? 0 : dotProduct / denominator;
-};
+/**
+ * Map a cosine distance to a 0-1 relevance score.
+ * Raw cosine similarity between unrelated captions is rarely near 0, so it is
+ * rescaled between a floor (unrelated) and a ceiling (clearly the same thing).
+ */
+const semanticRelevance = (distance: number): number =>
+  Math.min(1, Math.max(0,
+    (1 - distance - SEMANTIC_SIMILARITY_FLOOR) /
+    (SEMANTIC_SIMILARITY_CEILING - SEMANTIC_SIMILARITY_FLOOR)
+  ));
 
-// Calculate keyword match score between query and text
-const keywordMatchScore = (query: string, text: string): number => {
-  const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-  const textLower = text.toLowerCase();
-  
-  if (queryWords.length === 0) return 0;
-  
-  let matchCount = 0;
-  for (const word of queryWords) {
-    if (textLower.includes(word)) {
-      matchCount++;
-    }
-  }
-  
-  return matchCount / queryWords.length; // 0 to 1
+/**
+ * Score a search candidate on meaning and on keywords.
+ * Keyword hits count by the share of query terms actually present.
+ */
+const explainMatch = (
+  row: {
+    distance: number;
+    caption: string | null;
+    filename: string;
+    notes?: string | null;
+    tags?: string | null;
+  },
+  queryTerms: QueryTerm[],
+  isKeywordHit: boolean
+): MatchExplanation => {
+  const matchedTerms = queryTerms.length > 0
+    ? findMatchedTerms(
+      queryTerms,
+      `${row.caption || ''} ${row.filename} ${row.notes || ''} ${row.tags || ''}`
+    )
+    : [];
+
+  return {
+    semanticScore: semanticRelevance(row.distance),
+    keywordScore: isKeywordHit && queryTerms.length > 0
+      ? matchedTerms.length / queryTerms.length
+      : 0,
+    matchedTerms,
+  };
 };
 
 export class MemoryEngine {
@@ -146,17 +301,38 @@ export class MemoryEngine {
   private embeddingModelLoading = false;
   private embeddingModelLoadPromise: Promise<void> | null = null;
   
-  // Search mutex to serialize search operations
+  // Search mutex to serialize search operations (and edits and indexing, which share the models)
   private searchInProgress = false;
   private searchQueue: Array<{
-    query: string;
-    resolve: (results: SearchResult[]) => void;
+    label: string;
+    run: () => Promise<unknown>;
+    replaceable: boolean;
+    resolve: (value: any) => void;
     reject: (error: Error) => void;
   }> = [];
+
+  // Embeddings of past queries (memory LRU + query_embeddings table)
+  private queryEmbeddingCache: QueryEmbeddingCache | null = null;
+
+  // Fused ranking of the last text search, so later pages keep the order of earlier ones.
+  // Dropped whenever a memory, its text or its vector changes.
+  private lastRanking: {
+    key: string;
+    results: SearchResult[];
+    totalIsEstimate: boolean;
+  } | null = null;
   
   // Progress callback
   private onProgress: ((progress: ProcessingProgress) => void) | null = null;
 
+  // Pause/cancel requests for the running indexing job, checked between files
+  private cancelRequested = false;
+  private pauseRequested = false;
+  private pauseResolver: (() => void) | null = null;
+  // Set while an indexing run holds the search queue
+  private indexingInProgress = false;
+  private lastProgress: ProcessingProgress | null = null;
+
   constructor() {
     // Engine created, call initialize() to set up database
   }
@@ -175,37 +351,16 @@ export class MemoryEngine {
       });
       console.log('[MemoryEngine] Database opened');
 
-      // Create files table for metadata (IF NOT EXISTS - won't drop existing data)
-      console.log('[MemoryEngine] Creating files table...');
-      this.db.executeSync(`
-        CREATE TABLE IF NOT EXISTS files (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          uri TEXT NOT NULL,
-          filename TEXT NOT NULL,
-          file_type TEXT NOT NULL,
-          caption TEXT,
-          thumbnail TEXT,
-          created_at INTEGER NOT NULL
-        );
-      `);
-      console.log('[MemoryEngine] Files table ready');
-
-      // Create vectors table (IF NOT EXISTS - won't drop existing data)
-      console.log('[MemoryEngine] Creating vectors table...');
-      this.db.executeSync(`
-        CREATE TABLE IF NOT EXISTS file_vectors (
-          file_id INTEGER PRIMARY KEY,
-          embedding TEXT NOT NULL,
-          FOREIGN KEY (file_id) REFERENCES files(id)
-        );
-      `);
-      console.log('[MemoryEngine] Vectors table ready');
+      // Bring the schema up to date (no-op when already current)
+      runMigrations(this.db);
+      console.log('[MemoryEngine] Schema ready');
 
-      // Create index for faster lookups
-      this.db.executeSync(`
-        CREATE INDEX IF NOT EXISTS idx_files_type ON files(file_type);
-      `);
-      console.log('[MemoryEngine] Index ready');
+      this.queryEmbeddingCache = new QueryEmbeddingCache(this.db, EMBEDDING_MODEL);
+
+      // Rescue older records still pointing into the caches directory
+      await this.moveCachedFilesToLibrary();
+
+      this.backfillDocumentFields();
 
       this.isInitialized = true;
       console.log('[MemoryEngine] Database initialized successfully');
@@ -240,6 +395,7 @@ export class MemoryEngine {
     };
     
     console.log(`[MemoryEngine] ${phase}: ${message} (${progress.percentage}%)`);
+    this.lastProgress = progress;
     this.onProgress?.(progress);
   }
 
@@ -262,10 +418,10 @@ export class MemoryEngine {
   }
 
   /**
-   * Load the vision model
+   * Load the vision model (defaults to the selected one)
    */
-  private async loadVisionModel(): Promise<void> {
-    const modelToLoad = this.selectedVisionModel;
+  private async loadVisionModel(modelSlug?: string): Promise<void> {
+    const modelToLoad = modelSlug || this.selectedVisionModel;
     this.reportProgress('loading_vision', 0, 1, `Loading ${modelToLoad}...`);
     console.log('[MemoryEngine] Creating CactusLM instance with model:', modelToLoad);
     
@@ -437,14 +593,41 @@ export class MemoryEngine {
         },
       });
 
-      console.log('[MemoryEngine] Caption generated successfully');
       // Clean up any model end tokens
-      return result.response.trim().replace(/<\|im_end\|>/g, '').trim();
+      const caption = result.response.trim().replace(/<\|im_end\|>/g, '').trim();
+      if (!caption) {
+        throw new Error('Vision model returned an empty caption');
+      }
+
+      console.log('[MemoryEngine] Caption generated successfully');
+      return caption;
     } catch (error) {
       console.error('[MemoryEngine] Failed to caption image:', error);
-      // Return filename as fallback
-      const filename = imagePath.split('/').pop() || 'unknown';
-      return `Image file: ${filename}`;
+      throw error;
+    }
+  }
+
+  /**
+   * Caption an image file on disk or behind a content:// uri
+   * Resizes it first and removes any temp copies afterwards
+   */
+  private async captionImageFile(uri: string, filename: string): Promise<string> {
+    const resizedUri = await resizeImageForVision(uri);
+    let imagePath: string | null = null;
+    try {
+      imagePath = await getReadableFilePath(resizedUri, filename);
+      return await this.captionImage(imagePath);
+    } finally {
+      // Clean up the resized image and any temp copy of a content:// uri
+      for (const path of new Set([resizedUri, imagePath])) {
+        if (path && path !== uri && path !== uri.replace('file://', '') && !path.includes('://')) {
+          try {
+            await RNFS.unlink(path);
+          } catch (e) {
+            // Ignore cleanup errors
+          }
+        }
+      }
     }
   }
 
@@ -459,32 +642,57 @@ export class MemoryEngine {
       return text;
     } catch (error) {
       console.error('[MemoryEngine] Failed to extract PDF text:', error);
-      return '';
+      throw error;
+    }
+  }
+
+  /**
+   * Generate caption for PDF using text extraction, and classify it
+   * Falls back to filename when the PDF has no text layer (e.g. scans);
+   * throws if the PDF can't be read at all
+   */
+  private async generatePdfCaption(
+    file: SelectedFile
+  ): Promise<{ caption: string; document: DocumentFields }> {
+    const extractedText = await this.extractPdfText(file.uri);
+    const cleanName = file.name.replace(/\.pdf$/i, '').replace(/[_-]/g, ' ');
+
+    if (extractedText && extractedText.length > 20) {
+      const document = extractDocumentFields(extractedText, file.name);
+      // Lead with what kind of document it is - the embedding weighs the start most
+      const summary = describeDocument(document);
+      return {
+        caption: `PDF: ${cleanName}. ${summary ? `${summary}. ` : ''}Content: ${extractedText}`,
+        document,
+      };
     }
+
+    // Fallback to filename-based caption (the name can still say what it is)
+    return {
+      caption: `PDF document: ${cleanName}`,
+      document: extractDocumentFields('', file.name),
+    };
   }
 
   /**
-   * Generate caption for PDF using text extraction
-   * Falls back to filename if extraction fails
+   * Extract fields for PDFs indexed before extraction existed, from the text
+   * kept in their captions (no need to open the files again)
    */
-  private async generatePdfCaption(file: SelectedFile): Promise<string> {
+  private backfillDocumentFields(): void {
     try {
-      // Try to extract text from PDF
-      const extractedText = await this.extractPdfText(file.uri);
-      
-      if (extractedText && extractedText.length > 20) {
-        // Use extracted text as caption
-        const cleanName = file.name.replace(/\.pdf$/i, '').replace(/[_-]/g, ' ');
-        return `PDF: ${cleanName}. Content: ${extractedText}`;
+      const pdfs = getPdfsWithoutFields(this.db!);
+      for (const pdf of pdfs) {
+        const caption = pdf.caption || '';
+        const contentStart = caption.indexOf('Content: ');
+        const text = contentStart >= 0 ? caption.slice(contentStart + 'Content: '.length) : '';
+        saveDocumentFields(this.db!, pdf.id, extractDocumentFields(text, pdf.filename));
+      }
+      if (pdfs.length > 0) {
+        console.log(`[MemoryEngine] Extracted document fields for ${pdfs.length} older PDFs`);
       }
-      
-      // Fallback to filename-based caption
-      const cleanName = file.name.replace(/\.pdf$/i, '').replace(/[_-]/g, ' ');
-      return `PDF document: ${cleanName}`;
     } catch (error) {
-      console.error('[MemoryEngine] Error generating PDF caption:', error);
-      const cleanName = file.name.replace(/\.pdf$/i, '').replace(/[_-]/g, ' ');
-      return `PDF document: ${cleanName}`;
+      // Filters just won't match these PDFs - not worth failing startup over
+      console.warn('[MemoryEngine] Document field backfill failed:', error);
     }
   }
 
@@ -507,399 +715,1561 @@ export class MemoryEngine {
   }
 
   /**
-   * Read image as base64 thumbnail
-   * For now, skip thumbnail to avoid large data in SQLite
-   */
-  private async createThumbnail(_imagePath: string): Promise<string | null> {
-    // Skip thumbnail creation - storing full base64 images causes DB slowdown
-    // Just store the URI and load from disk when needed
-    console.log('[MemoryEngine] Skipping thumbnail creation (using URI instead)');
-    return null;
-  }
-
-  /**
-   * MAIN INDEXING FUNCTION
-   * Implements batch processing strategy:
-   * 1. Load vision model
-   * 2. Caption ALL images
-   * 3. Unload vision model
-   * 4. Extract text from PDFs (no model needed)
-   * 5. Load embedding model
-   * 6. Embed ALL captions
-   * 7. Save to database
+   * Create a small JPEG thumbnail on disk for grid display
+   * Returns a file:// URI, or null if resizing fails (grid falls back to the original)
    */
-  async indexFiles(files: SelectedFile[]): Promise<void> {
-    console.log('[MemoryEngine] indexFiles called with', files.length, 'files');
-    
-    if (!this.isInitialized) {
-      console.log('[MemoryEngine] Initializing database...');
-      await this.initialize();
-      console.log('[MemoryEngine] Database initialized');
-    }
-
-    const images = files.filter(f => f.type === 'image');
-    const pdfs = files.filter(f => f.type === 'pdf');
-    const totalFiles = files.length;
-    
-    console.log(`[MemoryEngine] Starting indexing: ${images.length} images, ${pdfs.length} PDFs`);
-
+  private async createThumbnail(imageUri: string, name: string): Promise<string | null> {
     try {
-      // =========================================
-      // PHASE 1: Caption all images with vision model
-      // =========================================
-      const captionedFiles: CaptionedFile[] = [];
-
-      if (images.length > 0) {
-        if (USE_VISION_MODEL) {
-          // IMPORTANT: Unload embedding model first to free RAM for vision model
-          if (this.embeddingModel) {
-            console.log('[MemoryEngine] Unloading embedding model to free RAM for vision...');
-            await this.unloadEmbeddingModel();
-            await delay(2000); // Let memory settle
-          }
-
-          // Use AI vision model for captioning
-          await this.loadVisionModel();
-
-          for (let i = 0; i < images.length; i++) {
-            const file = images[i];
-            this.reportProgress(
-              'captioning',
-              i + 1,
-              images.length,
-              `Analyzing image ${i + 1}/${images.length}: ${file.name}`
-            );
-
-            // Resize image first to reduce memory usage
-            const resizedUri = await resizeImageForVision(file.uri);
-            
-            // Convert to readable file path
-            const imagePath = await getReadableFilePath(resizedUri, file.name);
-            const caption = await this.captionImage(imagePath);
-            
-            // Clean up resized temp file
-            try {
-              if (resizedUri !== file.uri) {
-                await RNFS.unlink(resizedUri);
-              }
-            } catch (e) {
-              // Ignore cleanup errors
-            }
-            
-            const thumbnail = await this.createThumbnail(file.uri);
-
-            captionedFiles.push({
-              file,
-              caption,
-              thumbnail,
-            });
+      const thumbnailDir = getThumbnailDir();
+      if (!(await RNFS.exists(thumbnailDir))) {
+        await RNFS.mkdir(thumbnailDir);
+      }
 
-            console.log(`[MemoryEngine] Captioned: "${caption.substring(0, 50)}..."`);
+      const result = await ImageResizer.createResizedImage(
+        imageUri,
+        THUMBNAIL_SIZE,
+        THUMBNAIL_SIZE,
+        'JPEG',
+        THUMBNAIL_QUALITY,
+        0,
+        undefined,
+        false,
+        { mode: 'cover', onlyScaleDown: true },
+      );
 
-            // Reset model context to free memory after each image
-            if (this.visionModel) {
-              console.log('[MemoryEngine] Resetting vision model context...');
-              await this.visionModel.reset();
-            }
-
-            // Thermal cooldown between images - let device recover
-            if (i < images.length - 1) {
-              console.log(`[MemoryEngine] Cooling down for ${COOL_DOWN_VISION_MS}ms...`);
-              await delay(COOL_DOWN_VISION_MS);
-            }
-          }
+      // Move out of the resizer's cache output into durable storage
+      const thumbnailPath = `${thumbnailDir}/${name}.jpg`;
+      await removeManagedFile(thumbnailPath);
+      await RNFS.moveFile(result.path.replace('file://', ''), thumbnailPath);
 
-          await this.unloadVisionModel();
-        } else {
-          // Skip vision model - use filename as caption
-          console.log('[MemoryEngine] Skipping vision model, using filenames');
-          for (let i = 0; i < images.length; i++) {
-            const file = images[i];
-            this.reportProgress(
-              'captioning',
-              i + 1,
-              images.length,
-              `Processing image ${i + 1}/${images.length}: ${file.name}`
-            );
+      console.log(`[MemoryEngine] Thumbnail created: ${result.size} bytes at ${thumbnailPath}`);
+      return `file://${thumbnailPath}`;
+    } catch (error) {
+      console.warn('[MemoryEngine] Failed to create thumbnail:', error);
+      return null;
+    }
+  }
 
-            // Use filename as caption
-            const cleanName = file.name.replace(/\.[^.]+$/, '').replace(/[_-]/g, ' ');
-            const caption = `Image: ${cleanName}`;
-            const thumbnail = await this.createThumbnail(file.uri);
+  /**
+   * Hash each file and split out ones whose content is already indexed
+   * or repeated within the same batch
+   */
+  private async filterDuplicates(files: SelectedFile[]): Promise<{
+    unique: SelectedFile[];
+    duplicates: SelectedFile[];
+  }> {
+    const unique: SelectedFile[] = [];
+    const duplicates: SelectedFile[] = [];
+    const seenHashes = new Set<string>();
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      this.reportProgress(
+        'selecting',
+        i + 1,
+        files.length,
+        `Checking for duplicates ${i + 1}/${files.length}`
+      );
 
-            captionedFiles.push({
-              file,
-              caption,
-              thumbnail,
-            });
+      let contentHash: string | null = null;
+      try {
+        contentHash = await hashFileContents(file.uri, file.name);
+      } catch (error) {
+        // Can't dedupe this one - index it anyway
+        console.warn(`[MemoryEngine] Failed to hash ${file.name}:`, error);
+      }
 
-            console.log(`[MemoryEngine] Using filename caption: "${caption}"`);
-          }
+      if (contentHash) {
+        // Also check unfinished jobs so a resumed job doesn't add it a second time
+        const existing = this.db!.executeSync(
+          `SELECT id FROM files WHERE content_hash = ?
+           UNION ALL
+           SELECT id FROM indexing_job_files WHERE content_hash = ? AND status != 'failed'
+           LIMIT 1`,
+          [contentHash, contentHash]
+        );
+        if (seenHashes.has(contentHash) || (existing.rows?.length || 0) > 0) {
+          console.log(`[MemoryEngine] Skipping duplicate: ${file.name}`);
+          duplicates.push(file);
+          continue;
         }
+        seenHashes.add(contentHash);
       }
 
-      // =========================================
-      // PHASE 2: Process PDFs with text extraction (no AI needed)
-      // =========================================
-      if (pdfs.length > 0) {
-        console.log('[MemoryEngine] Processing PDFs with text extraction...');
-        
-        for (let i = 0; i < pdfs.length; i++) {
-          const file = pdfs[i];
-          this.reportProgress(
-            'captioning',
-            images.length + i + 1,
-            totalFiles,
-            `Extracting text from PDF ${i + 1}/${pdfs.length}: ${file.name}`
-          );
+      unique.push({ ...file, contentHash });
+    }
 
-          const caption = await this.generatePdfCaption(file);
-          
-          captionedFiles.push({
-            file,
-            caption,
-            thumbnail: null,
-          });
+    return { unique, duplicates };
+  }
 
-          console.log(`[MemoryEngine] PDF processed: "${caption.substring(0, 80)}..."`);
-        }
-      }
+  /**
+   * Copy files into the managed library folder
+   * A file that can't be copied is indexed from where it was picked
+   */
+  private async importToLibrary(files: SelectedFile[]): Promise<SelectedFile[]> {
+    const imported: SelectedFile[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      this.reportProgress(
+        'selecting',
+        i + 1,
+        files.length,
+        `Copying to library ${i + 1}/${files.length}`
+      );
 
-      // =========================================
-      // PHASE 3: Generate embeddings for all captions
-      // =========================================
-      await this.loadEmbeddingModel();
+      try {
+        imported.push(await copyToLibrary(file));
+      } catch (error) {
+        console.warn(`[MemoryEngine] Failed to copy ${file.name} to library, using original:`, error);
+        imported.push(file);
+      }
+    }
 
-      const embeddedFiles: EmbeddedFile[] = [];
+    return imported;
+  }
 
-      for (let i = 0; i < captionedFiles.length; i++) {
-        const captioned = captionedFiles[i];
-        this.reportProgress(
-          'embedding',
-          i + 1,
-          captionedFiles.length,
-          `Generating vector ${i + 1}/${captionedFiles.length}`
-        );
+  /**
+   * Move files indexed before the library existed out of the caches
+   * directory, while their cached copy is still there
+   */
+  private async moveCachedFilesToLibrary(): Promise<void> {
+    const result = this.db!.executeSync(
+      `SELECT id, uri, filename, file_type, content_hash FROM files WHERE uri LIKE ?`,
+      [`%${RNFS.CachesDirectoryPath}%`]
+    );
 
-        const embedding = await this.generateEmbedding(captioned.caption);
+    for (const row of result.rows || []) {
+      const path = (row.uri as string).replace('file://', '');
+      if (!(await RNFS.exists(path))) {
+        continue;
+      }
 
-        embeddedFiles.push({
-          ...captioned,
-          embedding,
+      try {
+        const copied = await copyToLibrary({
+          uri: row.uri as string,
+          name: row.filename as string,
+          type: row.file_type as FileType,
+          mimeType: '',
+          size: 0,
+          contentHash: row.content_hash as string | null,
         });
-
-        // Thermal cooldown between embeddings
-        if (i < captionedFiles.length - 1) {
-          await delay(COOL_DOWN_EMBED_MS);
-        }
+        this.db!.executeSync(
+          'UPDATE files SET uri = ?, source_uri = COALESCE(source_uri, ?) WHERE id = ?',
+          [copied.uri, row.uri as string, row.id as number]
+        );
+      } catch (error) {
+        console.warn(`[MemoryEngine] Failed to move ${row.filename} to library:`, error);
       }
+    }
+  }
 
-      // =========================================
-      // PHASE 4: Save to database
-      // =========================================
-      this.reportProgress('saving', 0, embeddedFiles.length, 'Saving to database...');
+  /**
+   * Create a persistent indexing job with one pending row per file
+   */
+  private createJob(files: SelectedFile[]): number {
+    const now = Date.now();
 
-      for (let i = 0; i < embeddedFiles.length; i++) {
-        const embedded = embeddedFiles[i];
-        await this.saveFileToDatabase(embedded);
-        
-        this.reportProgress(
-          'saving',
-          i + 1,
-          embeddedFiles.length,
-          `Saved ${i + 1}/${embeddedFiles.length}`
+    this.db!.executeSync('BEGIN');
+    try {
+      const job = this.db!.executeSync(
+        `INSERT INTO indexing_jobs (vision_model, status, created_at, updated_at)
+         VALUES (?, 'running', ?, ?)`,
+        [this.selectedVisionModel, now, now]
+      );
+      const jobId = job.insertId!;
+
+      for (const file of files) {
+        this.db!.executeSync(
+          `INSERT INTO indexing_job_files
+             (job_id, uri, filename, file_type, mime_type, size, content_hash, source_uri, status, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+          [
+            jobId,
+            file.uri,
+            file.name,
+            file.type,
+            file.mimeType,
+            file.size,
+            file.contentHash ?? null,
+            file.sourceUri ?? null,
+            now,
+          ]
         );
       }
 
-      // =========================================
-      // PHASE 5: Complete
-      // =========================================
-      // Note: We keep embedding model loaded for search queries
-
-      this.reportProgress('complete', totalFiles, totalFiles, `${totalFiles} files indexed`);
-      console.log(`[MemoryEngine] Indexing complete: ${totalFiles} files processed`);
-
+      this.db!.executeSync('COMMIT');
+      console.log(`[MemoryEngine] Created indexing job ${jobId} with ${files.length} files`);
+      return jobId;
     } catch (error) {
-      this.reportProgress('error', 0, 0, `Error: ${error}`);
-      console.error('[MemoryEngine] Indexing failed:', error);
-      
-      // Cleanup on error
-      await this.unloadVisionModel();
-      await this.unloadEmbeddingModel();
-      
+      this.db!.executeSync('ROLLBACK');
       throw error;
     }
   }
 
   /**
-   * Save a single embedded file to the database
+   * Get a job's file rows, optionally only those in one status
+   */
+  private getJobFiles(jobId: number, status?: JobFileStatus): JobFileRow[] {
+    const result = status
+      ? this.db!.executeSync(
+          'SELECT * FROM indexing_job_files WHERE job_id = ? AND status = ? ORDER BY id',
+          [jobId, status]
+        )
+      : this.db!.executeSync(
+          'SELECT * FROM indexing_job_files WHERE job_id = ? ORDER BY id',
+          [jobId]
+        );
+    return (result.rows || []) as unknown as JobFileRow[];
+  }
+
+  /**
+   * Record a file's progress so it survives the app being killed
+   */
+  private updateJobFile(
+    rowId: number,
+    status: JobFileStatus,
+    fields: {
+      caption?: string;
+      captionModel?: string;
+      thumbnail?: string | null;
+      documentFields?: DocumentFields;
+      embedding?: string;
+      error?: string;
+    } = {}
+  ): void {
+    this.db!.executeSync(
+      `UPDATE indexing_job_files
+       SET status = ?,
+           caption = COALESCE(?, caption),
+           caption_model = COALESCE(?, caption_model),
+           thumbnail = COALESCE(?, thumbnail),
+           document_fields = COALESCE(?, document_fields),
+           embedding = COALESCE(?, embedding),
+           error = ?,
+           updated_at = ?
+       WHERE id = ?`,
+      [
+        status,
+        fields.caption ?? null,
+        fields.captionModel ?? null,
+        fields.thumbnail ?? null,
+        fields.documentFields ? JSON.stringify(fields.documentFields) : null,
+        fields.embedding ?? null,
+        fields.error ?? null,
+        Date.now(),
+        rowId,
+      ]
+    );
+  }
+
+  /**
+   * Find the most recent job that was interrupted before finishing
    */
-  private async saveFileToDatabase(embedded: EmbeddedFile): Promise<void> {
+  async getResumableJob(): Promise<IndexingJobInfo | null> {
     if (!this.db) {
-      throw new Error('Database not initialized');
+      await this.initialize();
     }
 
     try {
-      console.log(`[MemoryEngine] Saving file: ${embedded.file.name}`);
-      
-      // Insert file metadata - use executeSync to avoid async hanging
-      console.log('[MemoryEngine] Inserting file metadata...');
-      const result = this.db.executeSync(
-        `INSERT INTO files (uri, filename, file_type, caption, thumbnail, created_at)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [
-          embedded.file.uri,
-          embedded.file.name,
-          embedded.file.type,
-          embedded.caption,
-          embedded.thumbnail,
-          Date.now(),
-        ]
+      const result = this.db!.executeSync(
+        `SELECT
+          j.id,
+          j.vision_model,
+          j.created_at,
+          COUNT(f.id) AS total,
+          SUM(CASE WHEN f.status = 'saved' THEN 1 ELSE 0 END) AS saved,
+          SUM(CASE WHEN f.status = 'failed' THEN 1 ELSE 0 END) AS failed
+         FROM indexing_jobs j
+         INNER JOIN indexing_job_files f ON f.job_id = j.id
+         WHERE j.status = 'running'
+         GROUP BY j.id
+         ORDER BY j.id DESC
+         LIMIT 1`
       );
 
-      const fileId = result.insertId!;
-      console.log(`[MemoryEngine] File metadata saved with ID: ${fileId}`);
-
-      // Insert vector - use executeSync
-      console.log(`[MemoryEngine] Inserting vector (${embedded.embedding.length} dimensions)...`);
-      const vectorJson = vectorToJson(embedded.embedding);
-      console.log(`[MemoryEngine] Vector JSON length: ${vectorJson.length} chars`);
-      
-      this.db.executeSync(
-        `INSERT INTO file_vectors (file_id, embedding) VALUES (?, ?)`,
-        [fileId, vectorJson]
-      );
+      const row = result.rows?.[0] as any;
+      if (!row) {
+        return null;
+      }
 
-      console.log(`[MemoryEngine] Saved file ${fileId}: ${embedded.file.name}`);
+      return {
+        id: row.id,
+        visionModel: row.vision_model,
+        createdAt: row.created_at,
+        total: row.total,
+        completed: row.saved || 0,
+        failed: row.failed || 0,
+        remaining: row.total - (row.saved || 0) - (row.failed || 0),
+      };
     } catch (error) {
-      console.error('[MemoryEngine] Failed to save file:', error);
-      throw error;
+      console.error('[MemoryEngine] Failed to get resumable job:', error);
+      return null;
     }
   }
 
   /**
-   * Search for files matching the query
-   * Uses brute-force cosine similarity (good enough for <1000 files)
-   * Serializes concurrent searches to prevent race conditions
+   * Drop an unfinished job and everything recorded for it
    */
-  async search(query: string): Promise<SearchResult[]> {
+  async discardJob(jobId: number): Promise<void> {
     if (!this.db) {
       await this.initialize();
     }
 
-    if (!query.trim()) {
-      return [];
-    }
+    const unsaved = this.db!.executeSync(
+      `SELECT uri, thumbnail FROM indexing_job_files WHERE job_id = ? AND status != 'saved'`,
+      [jobId]
+    );
 
-    // If a search is already in progress, queue this one
-    if (this.searchInProgress) {
-      console.log(`[MemoryEngine] Search already in progress, queueing: "${query}"`);
-      return new Promise((resolve, reject) => {
-        // Clear any existing queued searches (only keep the latest)
-        this.searchQueue = [];
-        this.searchQueue.push({ query, resolve, reject });
-      });
-    }
+    this.db!.executeSync('DELETE FROM indexing_job_files WHERE job_id = ?', [jobId]);
+    this.db!.executeSync('DELETE FROM indexing_jobs WHERE id = ?', [jobId]);
+    await this.removeUnreferencedFiles(unsaved.rows || []);
+    console.log(`[MemoryEngine] Discarded indexing job ${jobId}`);
+  }
 
-    this.searchInProgress = true;
+  /**
+   * Stop the running job before its next file. Files already captioned
+   * are still embedded and saved; files not started yet are dropped.
+   */
+  cancelIndexing(): void {
+    console.log('[MemoryEngine] Cancel requested');
+    this.cancelRequested = true;
+    // Wake a paused job so it can wind down
+    this.continueIndexing();
+  }
 
-    try {
-      const results = await this.executeSearch(query);
-      return results;
-    } finally {
-      this.searchInProgress = false;
-      
-      // Process next queued search if any
-      if (this.searchQueue.length > 0) {
-        const next = this.searchQueue.shift()!;
-        console.log(`[MemoryEngine] Processing queued search: "${next.query}"`);
-        this.search(next.query).then(next.resolve).catch(next.reject);
-      }
+  /**
+   * Pause the running job before its next file (unloads the vision model)
+   */
+  pauseIndexing(): void {
+    console.log('[MemoryEngine] Pause requested');
+    this.pauseRequested = true;
+  }
+
+  /**
+   * Continue a paused job
+   */
+  continueIndexing(): void {
+    this.pauseRequested = false;
+    if (this.pauseResolver) {
+      this.pauseResolver();
+      this.pauseResolver = null;
     }
   }
 
   /**
-   * Internal search implementation
-   * Uses hybrid approach: semantic similarity + keyword matching
+   * Run indexing in the search queue - searches and edits load and unload
+   * the same models, so they wait for the run instead of swapping models under it
    */
-  private async executeSearch(query: string): Promise<SearchResult[]> {
-    try {
-      // Ensure embedding model is loaded for query vectorization
-      if (!this.embeddingModel) {
-        console.log('[MemoryEngine] Loading embedding model for search...');
-        await this.loadEmbeddingModel();
+  private async runIndexingTask<T>(label: string, task: () => Promise<T>): Promise<T> {
+    // Before queueing, so a cancel pressed while waiting still counts
+    this.resetRunControls();
+
+    return this.runSearchTask(label, async () => {
+      this.indexingInProgress = true;
+      try {
+        return await task();
+      } finally {
+        this.indexingInProgress = false;
       }
+    }, { replaceable: false });
+  }
 
-      // Generate query embedding for semantic search
-      console.log(`[MemoryEngine] Generating embedding for query: "${query}"`);
-      const queryEmbedding = await this.generateEmbedding(query);
-      console.log(`[MemoryEngine] Query embedding generated, ${queryEmbedding.length} dimensions`);
+  /**
+   * Clear pause/cancel requests left over from a previous run
+   */
+  private resetRunControls(): void {
+    this.cancelRequested = false;
+    this.pauseRequested = false;
+    this.pauseResolver = null;
+  }
 
-      // Get all files with their vectors using sync execution
-      console.log('[MemoryEngine] Fetching files from database...');
-      const results = this.db!.executeSync(
-        `SELECT 
-          f.id,
-          f.uri,
-          f.filename,
-          f.file_type,
-          f.caption,
-          f.thumbnail,
-          f.created_at,
-          v.embedding
-         FROM files f
-         INNER JOIN file_vectors v ON f.id = v.file_id`
+  /**
+   * Checkpoint between files: blocks while paused. The vision model is
+   * unloaded for the pause and reloaded afterwards unless cancelled.
+   */
+  private async waitWhilePaused(visionModelSlug?: string): Promise<void> {
+    if (!this.pauseRequested || this.cancelRequested) {
+      return;
+    }
+
+    // Keep the counts on screen while paused
+    const { current, total } = this.lastProgress ?? { current: 0, total: 0 };
+
+    const reloadVision = !!this.visionModel;
+    if (reloadVision) {
+      await this.unloadVisionModel();
+    }
+
+    // The request may have been withdrawn while the model was unloading
+    if (this.pauseRequested && !this.cancelRequested) {
+      this.reportProgress('paused', current, total, 'Paused');
+      await new Promise<void>(resolve => {
+        this.pauseResolver = resolve;
+      });
+    }
+
+    if (reloadVision && !this.cancelRequested) {
+      await this.loadVisionModel(visionModelSlug);
+    }
+  }
+
+  /**
+   * MAIN INDEXING FUNCTION
+   * Implements batch processing strategy:
+   * 0. Skip files whose content is already indexed
+   * 1. Record the batch as a persistent job
+   * 2. Process the job (see runJob)
+   */
+  async indexFiles(selectedFiles: SelectedFile[]): Promise<IndexingSummary> {
+    return this.runIndexingTask(`index ${selectedFiles.length} files`, async () => {
+      console.log('[MemoryEngine] indexFiles called with', selectedFiles.length, 'files');
+
+      if (!this.isInitialized) {
+        console.log('[MemoryEngine] Initializing database...');
+        await this.initialize();
+        console.log('[MemoryEngine] Database initialized');
+      }
+
+      try {
+        await this.purgeFinishedJobs();
+
+        // =========================================
+        // PHASE 0: Drop files that are already indexed (before any model loads)
+        // =========================================
+        const { unique: files, duplicates } = await this.filterDuplicates(selectedFiles);
+
+        if (files.length === 0 || this.cancelRequested) {
+          const message = this.cancelRequested ? 'Indexing cancelled' : 'All files were already indexed';
+          this.reportProgress('complete', 1, 1, message);
+          console.log(`[MemoryEngine] Nothing to index: ${message}`);
+          return {
+            jobId: null,
+            total: selectedFiles.length,
+            indexed: 0,
+            skippedDuplicates: duplicates.length,
+            cancelled: this.cancelRequested,
+            failed: [],
+          };
+        }
+
+        console.log(`[MemoryEngine] ${duplicates.length} duplicates skipped`);
+
+        // Copy into durable storage before the job is recorded, so a resumed
+        // job never depends on the picker's cache copy
+        const libraryFiles = await this.importToLibrary(files);
+
+        const jobId = this.createJob(libraryFiles);
+        const summary = await this.runJob(jobId);
+
+        return {
+          ...summary,
+          total: selectedFiles.length,
+          skippedDuplicates: duplicates.length,
+        };
+      } catch (error) {
+        await this.handleIndexingError(error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Continue an interrupted job - files already captioned or embedded
+   * pick up where they left off
+   */
+  async resumeIndexing(jobId: number): Promise<IndexingSummary> {
+    return this.runIndexingTask(`resume job ${jobId}`, async () => {
+      console.log('[MemoryEngine] Resuming indexing job', jobId);
+
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      try {
+        return await this.runJob(jobId);
+      } catch (error) {
+        await this.handleIndexingError(error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Re-run only the files of a finished job that failed. Each file restarts
+   * from the last step it completed (e.g. a failed save is not re-captioned).
+   */
+  async retryFailedFiles(jobId: number): Promise<IndexingSummary> {
+    return this.runIndexingTask(`retry job ${jobId}`, async () => {
+      console.log('[MemoryEngine] Retrying failed files of job', jobId);
+
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      try {
+        this.db!.executeSync(
+          `UPDATE indexing_job_files
+           SET status = CASE
+                 WHEN embedding IS NOT NULL THEN 'embedded'
+                 WHEN caption IS NOT NULL THEN 'captioned'
+                 ELSE 'pending'
+               END,
+               error = NULL,
+               updated_at = ?
+           WHERE job_id = ? AND status = 'failed'`,
+          [Date.now(), jobId]
+        );
+        this.db!.executeSync(
+          `UPDATE indexing_jobs SET status = 'running', updated_at = ? WHERE id = ?`,
+          [Date.now(), jobId]
+        );
+
+        return await this.runJob(jobId);
+      } catch (error) {
+        await this.handleIndexingError(error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Drop failure records of finished jobs - they can only be retried
+   * until the next indexing run starts
+   */
+  private async purgeFinishedJobs(): Promise<void> {
+    // Library copies and thumbnails of files that never got saved are orphans
+    const unsaved = this.db!.executeSync(
+      `SELECT uri, thumbnail FROM indexing_job_files
+       WHERE status != 'saved'
+         AND job_id IN (SELECT id FROM indexing_jobs WHERE status = 'complete')`
+    );
+
+    this.db!.executeSync(
+      `DELETE FROM indexing_job_files
+       WHERE job_id IN (SELECT id FROM indexing_jobs WHERE status = 'complete')`
+    );
+    this.db!.executeSync(`DELETE FROM indexing_jobs WHERE status = 'complete'`);
+    await this.removeUnreferencedFiles(unsaved.rows || []);
+  }
+
+  /**
+   * Delete library copies and thumbnails of rows that were just removed.
+   * Copies are named by content hash, so a saved memory or another job's
+   * file can share a path - those are kept.
+   */
+  private async removeUnreferencedFiles(rows: any[]): Promise<void> {
+    for (const row of rows) {
+      for (const path of [row.uri, row.thumbnail] as Array<string | null>) {
+        if (!path) continue;
+        const referenced = this.db!.executeSync(
+          `SELECT 1 FROM files WHERE uri = ? OR thumbnail = ?
+           UNION ALL
+           SELECT 1 FROM indexing_job_files WHERE uri = ? OR thumbnail = ?
+           LIMIT 1`,
+          [path, path, path, path]
+        );
+        if (!referenced.rows?.length) {
+          await removeManagedFile(path);
+        }
+      }
+    }
+  }
+
+  /**
+   * Report an indexing failure and free model memory.
+   * The job stays 'running' so it can be resumed later.
+   */
+  private async handleIndexingError(error: unknown): Promise<void> {
+    this.reportProgress('error', 0, 0, `Error: ${error}`);
+    console.error('[MemoryEngine] Indexing failed:', error);
+
+    // Cleanup on error
+    await this.unloadVisionModel();
+    await this.unloadEmbeddingModel();
+  }
+
+  /**
+   * Process every unfinished file in a job. Each step is persisted per file:
+   * 1. Load vision model
+   * 2. Caption pending images        (pending -> captioned)
+   * 3. Unload vision model
+   * 4. Extract text from pending PDFs (pending -> captioned)
+   * 5. Load embedding model
+   * 6. Embed captions                (captioned -> embedded)
+   * 7. Save to database              (embedded -> saved)
+   */
+  private async runJob(jobId: number): Promise<IndexingSummary> {
+    const jobResult = this.db!.executeSync(
+      'SELECT vision_model FROM indexing_jobs WHERE id = ?',
+      [jobId]
+    );
+    const jobVisionModel = (jobResult.rows?.[0] as any)?.vision_model as string | undefined;
+    if (!jobVisionModel) {
+      throw new Error(`Indexing job ${jobId} not found`);
+    }
+
+    const pending = this.getJobFiles(jobId, 'pending');
+    const images = pending.filter(f => f.file_type === 'image');
+    const pdfs = pending.filter(f => f.file_type === 'pdf');
+    const totalPending = pending.length;
+
+    console.log(`[MemoryEngine] Job ${jobId}: ${images.length} images, ${pdfs.length} PDFs to caption`);
+
+    // =========================================
+    // PHASE 1: Caption pending images with vision model
+    // =========================================
+    if (images.length > 0) {
+      if (USE_VISION_MODEL) {
+        // IMPORTANT: Unload embedding model first to free RAM for vision model
+        if (this.embeddingModel) {
+          console.log('[MemoryEngine] Unloading embedding model to free RAM for vision...');
+          await this.unloadEmbeddingModel();
+          await delay(2000); // Let memory settle
+        }
+
+        // Use AI vision model for captioning (same model the job started with)
+        await this.loadVisionModel(jobVisionModel);
+
+        for (let i = 0; i < images.length; i++) {
+          // Stop cleanly between files on pause/cancel
+          await this.waitWhilePaused(jobVisionModel);
+          if (this.cancelRequested) break;
+
+          const row = images[i];
+          this.reportProgress(
+            'captioning',
+            i + 1,
+            images.length,
+            `Analyzing image ${i + 1}/${images.length}: ${row.filename}`
+          );
+
+          try {
+            const caption = await this.captionImageFile(row.uri, row.filename);
+            const thumbnail = await this.createThumbnail(row.uri, thumbnailName(row));
+
+            this.updateJobFile(row.id, 'captioned', {
+              caption,
+              captionModel: jobVisionModel,
+              thumbnail,
+            });
+
+            console.log(`[MemoryEngine] Captioned: "${caption.substring(0, 50)}..."`);
+          } catch (error) {
+            this.recordJobFileFailure(row, error);
+          }
+
+          // Reset model context to free memory after each image
+          if (this.visionModel) {
+            console.log('[MemoryEngine] Resetting vision model context...');
+            await this.visionModel.reset();
+          }
+
+          // Thermal cooldown between images - let device recover
+          if (i < images.length - 1) {
+            console.log(`[MemoryEngine] Cooling down for ${COOL_DOWN_VISION_MS}ms...`);
+            await delay(COOL_DOWN_VISION_MS);
+          }
+        }
+
+        await this.unloadVisionModel();
+      } else {
+        // Skip vision model - use filename as caption
+        console.log('[MemoryEngine] Skipping vision model, using filenames');
+        for (let i = 0; i < images.length; i++) {
+          await this.waitWhilePaused();
+          if (this.cancelRequested) break;
+
+          const row = images[i];
+          this.reportProgress(
+            'captioning',
+            i + 1,
+            images.length,
+            `Processing image ${i + 1}/${images.length}: ${row.filename}`
+          );
+
+          // Use filename as caption
+          const caption = filenameCaption(row.filename);
+          const thumbnail = await this.createThumbnail(row.uri, thumbnailName(row));
+
+          this.updateJobFile(row.id, 'captioned', {
+            caption,
+            captionModel: CAPTION_SOURCE_FILENAME,
+            thumbnail,
+          });
+
+          console.log(`[MemoryEngine] Using filename caption: "${caption}"`);
+        }
+      }
+    }
+
+    // =========================================
+    // PHASE 2: Process pending PDFs with text extraction (no AI needed)
+    // =========================================
+    if (pdfs.length > 0 && !this.cancelRequested) {
+      console.log('[MemoryEngine] Processing PDFs with text extraction...');
+      
+      for (let i = 0; i < pdfs.length; i++) {
+        await this.waitWhilePaused();
+        if (this.cancelRequested) break;
+
+        const row = pdfs[i];
+        this.reportProgress(
+          'captioning',
+          images.length + i + 1,
+          totalPending,
+          `Extracting text from PDF ${i + 1}/${pdfs.length}: ${row.filename}`
+        );
+
+        try {
+          const { caption, document } = await this.generatePdfCaption(jobFileToSelectedFile(row));
+
+          this.updateJobFile(row.id, 'captioned', {
+            caption,
+            captionModel: CAPTION_SOURCE_PDF_TEXT,
+            documentFields: document,
+          });
+
+          console.log(`[MemoryEngine] PDF processed (${document.documentType}): "${caption.substring(0, 80)}..."`);
+        } catch (error) {
+          this.recordJobFileFailure(row, error);
+        }
+      }
+    }
+
+    // Cancelled: forget files that were never started, finish the rest
+    if (this.cancelRequested) {
+      // Their library copies are the only ones left (the picker's cache copy is gone)
+      const dropped = this.db!.executeSync(
+        `SELECT uri, thumbnail FROM indexing_job_files WHERE job_id = ? AND status = 'pending'`,
+        [jobId]
+      );
+      this.db!.executeSync(
+        `DELETE FROM indexing_job_files WHERE job_id = ? AND status = 'pending'`,
+        [jobId]
       );
+      await this.removeUnreferencedFiles(dropped.rows || []);
+      console.log('[MemoryEngine] Cancelled - finishing files already captioned');
+    }
+
+    // =========================================
+    // PHASE 3: Generate embeddings for all captions
+    // =========================================
+    const captioned = this.getJobFiles(jobId, 'captioned');
+
+    if (captioned.length > 0) {
+      await this.loadEmbeddingModel();
+
+      // While the model is loaded, pick up vocabulary changes so new files are tagged with it
+      try {
+        await this.syncAutoTagLabels();
+      } catch (error) {
+        console.warn('[MemoryEngine] Failed to update automatic tag labels:', error);
+      }
+
+      for (let i = 0; i < captioned.length; i++) {
+        await this.waitWhilePaused();
+
+        const row = captioned[i];
+        this.reportProgress(
+          'embedding',
+          i + 1,
+          captioned.length,
+          `Generating vector ${i + 1}/${captioned.length}`
+        );
+
+        try {
+          const embedding = await this.generateEmbedding(row.caption!);
+
+          this.updateJobFile(row.id, 'embedded', { embedding: vectorToJson(embedding) });
+        } catch (error) {
+          this.recordJobFileFailure(row, error);
+        }
+
+        // Thermal cooldown between embeddings
+        if (i < captioned.length - 1) {
+          await delay(COOL_DOWN_EMBED_MS);
+        }
+      }
+    }
+
+    // =========================================
+    // PHASE 4: Save to database
+    // =========================================
+    const embedded = this.getJobFiles(jobId, 'embedded');
+    this.reportProgress('saving', 0, embedded.length, 'Saving to database...');
+
+    for (let i = 0; i < embedded.length; i++) {
+      try {
+        this.saveJobFile(embedded[i]);
+      } catch (error) {
+        this.recordJobFileFailure(embedded[i], error);
+      }
+      
+      this.reportProgress(
+        'saving',
+        i + 1,
+        embedded.length,
+        `Saved ${i + 1}/${embedded.length}`
+      );
+    }
+
+    // =========================================
+    // PHASE 5: Complete
+    // =========================================
+    // Note: We keep embedding model loaded for search queries
+    const rows = this.getJobFiles(jobId);
+    const savedCount = rows.filter(r => r.status === 'saved').length;
+    const failed: IndexingFailure[] = rows
+      .filter(r => r.status === 'failed')
+      .map(r => ({
+        filename: r.filename,
+        fileType: r.file_type,
+        error: r.error || 'Unknown error',
+      }));
+
+    this.completeJob(jobId);
+
+    const cancelled = this.cancelRequested;
+    const failedNote = failed.length > 0 ? `, ${failed.length} failed` : '';
+    this.reportProgress(
+      'complete',
+      savedCount,
+      savedCount,
+      cancelled
+        ? `Cancelled - ${savedCount} files indexed${failedNote}`
+        : `${savedCount} files indexed${failedNote}`
+    );
+    console.log(`[MemoryEngine] Indexing ${cancelled ? 'cancelled' : 'complete'}: ${savedCount} saved, ${failed.length} failed`);
+
+    return {
+      jobId,
+      total: rows.length,
+      indexed: savedCount,
+      skippedDuplicates: 0,
+      cancelled,
+      failed,
+    };
+  }
+
+  /**
+   * Record why a file could not be indexed; the run carries on with the rest
+   */
+  private recordJobFileFailure(row: JobFileRow, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`[MemoryEngine] Failed to index ${row.filename}: ${reason}`);
+    this.updateJobFile(row.id, 'failed', { error: reason });
+  }
+
+  /**
+   * Mark a job finished and drop rows whose data now lives in files/file_vectors.
+   * Failed rows are kept so they can be retried with retryFailedFiles().
+   */
+  private completeJob(jobId: number): void {
+    this.db!.executeSync(
+      `DELETE FROM indexing_job_files WHERE job_id = ? AND status = 'saved'`,
+      [jobId]
+    );
+    this.db!.executeSync(
+      `UPDATE indexing_jobs SET status = 'complete', updated_at = ? WHERE id = ?`,
+      [Date.now(), jobId]
+    );
+  }
+
+  /**
+   * Save an embedded job file and mark it saved in one transaction,
+   * so a resumed job never inserts the same file twice
+   */
+  private saveJobFile(row: JobFileRow): void {
+    this.db!.executeSync('BEGIN');
+    try {
+      const fileId = this.saveFileToDatabase({
+        file: jobFileToSelectedFile(row),
+        caption: row.caption!,
+        captionModel: row.caption_model,
+        thumbnail: row.thumbnail,
+        documentFields: row.document_fields ? JSON.parse(row.document_fields) : null,
+        embedding: JSON.parse(row.embedding!),
+      });
+      this.db!.executeSync(
+        `UPDATE indexing_job_files SET status = 'saved', file_id = ?, embedding = NULL, updated_at = ?
+         WHERE id = ?`,
+        [fileId, Date.now(), row.id]
+      );
+      this.db!.executeSync('COMMIT');
+    } catch (error) {
+      this.db!.executeSync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Save a single embedded file to the database
+   * Returns the new file id
+   */
+  private saveFileToDatabase(embedded: EmbeddedFile): number {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.lastRanking = null;
+
+    try {
+      console.log(`[MemoryEngine] Saving file: ${embedded.file.name}`);
+      
+      // Insert file metadata - use executeSync to avoid async hanging
+      console.log('[MemoryEngine] Inserting file metadata...');
+      const result = this.db.executeSync(
+        `INSERT INTO files
+           (uri, filename, file_type, caption, caption_model, thumbnail, created_at, content_hash, source_uri)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          embedded.file.uri,
+          embedded.file.name,
+          embedded.file.type,
+          embedded.caption,
+          embedded.captionModel,
+          embedded.thumbnail,
+          Date.now(),
+          embedded.file.contentHash ?? null,
+          embedded.file.sourceUri ?? null,
+        ]
+      );
+
+      const fileId = result.insertId!;
+      console.log(`[MemoryEngine] File metadata saved with ID: ${fileId}`);
+
+      // Insert vector - use executeSync
+      console.log(`[MemoryEngine] Inserting vector (${embedded.embedding.length} dimensions)...`);
+      const vectorJson = vectorToJson(embedded.embedding);
+      console.log(`[MemoryEngine] Vector JSON length: ${vectorJson.length} chars`);
+      
+      this.db.executeSync(
+        `INSERT INTO file_vectors (file_id, embedding) VALUES (?, ?)`,
+        [fileId, vectorJson]
+      );
+      tagFile(this.db, fileId);
+
+      if (embedded.documentFields) {
+        saveDocumentFields(this.db, fileId, embedded.documentFields);
+      }
+
+      console.log(`[MemoryEngine] Saved file ${fileId}: ${embedded.file.name}`);
+      return fileId;
+    } catch (error) {
+      console.error('[MemoryEngine] Failed to save file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search for files matching the query
+   * Uses sqlite-vec KNN for semantic candidates
+   * Returns one page of results (offset/limit) plus a total-count estimate
+   * Serializes concurrent searches to prevent race conditions
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchPage> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!query.trim()) {
+      return { results: [], total: 0, totalIsEstimate: false, dateRange: null, documentQuery: null };
+    }
+
+    const parsed = options.plainText
+      ? plainTextQuery(query)
+      : parseSearchQuery(query, options.parseDates ?? true, options.parseDocuments ?? true);
+
+    // The first search of a session loads the embedding model
+    return this.runModelTask(`"${query}"`, () => this.executeSearch(
+      parsed,
+      options.offset ?? 0,
+      options.limit ?? SEARCH_RESULTS_LIMIT
+    ));
+  }
+
+  /**
+   * Search for memories similar to an image that isn't in the library
+   * The image is captioned by the vision model and the caption is searched.
+   * The embedding model is unloaded first so both models are never resident at once.
+   */
+  async searchByImage(image: SelectedFile, options: SearchOptions = {}): Promise<ImageSearchPage> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    // Every indexing phase needs a model this would swap out - and it runs too
+    // long to wait behind
+    if (this.indexingInProgress) {
+      throw new Error('Image search is not available while files are being indexed');
+    }
+
+    return this.runModelTask(`image ${image.name}`, async () => {
+      if (this.embeddingModel) {
+        console.log('[MemoryEngine] Unloading embedding model to free RAM for vision...');
+        await this.unloadEmbeddingModel();
+      }
+
+      let caption: string;
+      try {
+        await this.loadVisionModel();
+        caption = await this.captionImageFile(image.uri, image.name);
+      } finally {
+        await this.unloadVisionModel();
+      }
+
+      console.log(`[MemoryEngine] Example image caption: "${caption.substring(0, 50)}..."`);
+      const page = await this.executeSearch(
+        plainTextQuery(caption),
+        options.offset ?? 0,
+        options.limit ?? SEARCH_RESULTS_LIMIT
+      );
+
+      return { ...page, queryCaption: caption };
+    });
+  }
+
+  /**
+   * Whether a query can be answered without running the embedding model
+   * (its embedding is cached in memory, or it has no free text at all)
+   */
+  isQueryCached(query: string, parseDates = true, parseDocuments = true): boolean {
+    const parsed = parseSearchQuery(query, parseDates, parseDocuments);
+    return !parsed.text || (this.queryEmbeddingCache?.has(parsed.text) ?? false);
+  }
+
+  /**
+   * Embed search text, reusing the cached embedding of an earlier identical query
+   */
+  private async getQueryEmbedding(text: string): Promise<number[]> {
+    const cached = this.queryEmbeddingCache?.get(text);
+    if (cached) {
+      console.log(`[MemoryEngine] Using cached embedding for query: "${text}"`);
+      return cached;
+    }
+
+    // Ensure embedding model is loaded for query vectorization
+    if (!this.embeddingModel) {
+      console.log('[MemoryEngine] Loading embedding model for search...');
+      await this.loadEmbeddingModel();
+    }
+
+    console.log(`[MemoryEngine] Generating embedding for query: "${text}"`);
+    const embedding = await this.generateEmbedding(text);
+    console.log(`[MemoryEngine] Query embedding generated, ${embedding.length} dimensions`);
+
+    this.queryEmbeddingCache?.set(text, embedding);
+    return embedding;
+  }
+
+  /**
+   * Run one search at a time - searches share the embedding model
+   * and image search swaps models, so they must not overlap.
+   * A queued search is replaced (and rejected) by a newer one; tasks with
+   * replaceable: false, like saving an edit, always run in turn.
+   */
+  private async runSearchTask<T>(
+    label: string,
+    task: () => Promise<T>,
+    { replaceable = true }: { replaceable?: boolean } = {}
+  ): Promise<T> {
+    // If a search is already in progress, queue this one
+    if (this.searchInProgress) {
+      console.log(`[MemoryEngine] Search already in progress, queueing: ${label}`);
+      return new Promise((resolve, reject) => {
+        if (replaceable) {
+          // Only the latest search is worth running
+          const replaced = this.searchQueue.filter(entry => entry.replaceable);
+          this.searchQueue = this.searchQueue.filter(entry => !entry.replaceable);
+          replaced.forEach(entry => entry.reject(new Error(`Replaced by a newer search: ${entry.label}`)));
+        }
+        this.searchQueue.push({ label, run: task, replaceable, resolve, reject });
+      });
+    }
+
+    this.searchInProgress = true;
+
+    try {
+      return await task();
+    } finally {
+      this.searchInProgress = false;
+      
+      // Process next queued task if any
+      if (this.searchQueue.length > 0) {
+        const next = this.searchQueue.shift()!;
+        console.log(`[MemoryEngine] Processing queued search: ${next.label}`);
+        this.runSearchTask(next.label, next.run, { replaceable: next.replaceable })
+          .then(next.resolve)
+          .catch(next.reject);
+      }
+    }
+  }
+
+  /**
+   * runSearchTask for work that loads models. Loading reports progress,
+   * so the UI is set back to idle afterwards rather than left looking busy.
+   */
+  private runModelTask<T>(
+    label: string,
+    task: () => Promise<T>,
+    options: { replaceable?: boolean } = {}
+  ): Promise<T> {
+    return this.runSearchTask(label, async () => {
+      try {
+        return await task();
+      } finally {
+        this.reportProgress('idle', 0, 0, 'Ready');
+      }
+    }, options);
+  }
+
+  /**
+   * Internal search implementation
+   * Hybrid approach: KNN and FTS5 rankings fused with reciprocal rank fusion,
+   * restricted by any filter tokens in the query
+   */
+  private async executeSearch(
+    parsed: ParsedQuery,
+    offset: number,
+    limit: number
+  ): Promise<SearchPage> {
+    const emptyPage: SearchPage = {
+      results: [],
+      total: 0,
+      totalIsEstimate: false,
+      dateRange: parsed.dateRange,
+      documentQuery: parsed.documentQuery,
+    };
+
+    try {
+      const filter = buildFilterClause(parsed.filters);
+
+      // Nothing but filters (e.g. "type:pdf", "last week") - list the matching files, newest first
+      if (!parsed.text) {
+        return hasFilters(parsed.filters)
+          ? this.executeFilterOnlySearch(filter, offset, limit, parsed)
+          : emptyPage;
+      }
+
+      // Later pages come from the ranking the first page was cut from. A bigger
+      // candidate pool fuses differently and could slip new rows into pages already shown.
+      const rankingKey = JSON.stringify(parsed);
+      const previous = offset > 0 && this.lastRanking?.key === rankingKey ? this.lastRanking : null;
+      if (previous && (offset + limit <= previous.results.length || !previous.totalIsEstimate)) {
+        return {
+          results: previous.results.slice(offset, offset + limit),
+          total: previous.results.length,
+          totalIsEstimate: previous.totalIsEstimate,
+          dateRange: parsed.dateRange,
+          documentQuery: parsed.documentQuery,
+        };
+      }
+
+      const queryEmbedding = await this.getQueryEmbedding(parsed.text);
+
+      const candidateLimit = getCandidateLimit(offset, limit);
+
+      const queryVector = vectorToJson(queryEmbedding);
+      let semanticResults;
+      if (filter.sql) {
+        // vec0 KNN can't see files columns, so filtered searches compute
+        // distances for the matching rows only
+        console.log('[MemoryEngine] Running filtered vector scan...');
+        semanticResults = this.db!.executeSync(
+          `SELECT
+            f.id,
+            f.uri,
+            f.filename,
+            f.file_type,
+            f.caption,
+            f.thumbnail,
+            f.created_at,
+            vec_distance_cosine(v.embedding, ?) AS distance
+           FROM files f
+           INNER JOIN file_vectors v ON f.id = v.file_id
+           WHERE ${filter.sql}
+           ORDER BY distance
+           LIMIT ?`,
+          [queryVector, ...filter.params, candidateLimit]
+        );
+      } else {
+        // KNN over the vec0 table - sqlite-vec returns cosine distance
+        console.log('[MemoryEngine] Running KNN query...');
+        semanticResults = this.db!.executeSync(
+          `WITH knn AS (
+             SELECT file_id, distance
+             FROM file_vectors
+             WHERE embedding MATCH ? AND k = ?
+           )
+           SELECT
+            f.id,
+            f.uri,
+            f.filename,
+            f.file_type,
+            f.caption,
+            f.thumbnail,
+            f.created_at,
+            knn.distance
+           FROM knn
+           INNER JOIN files f ON f.id = knn.file_id
+           ORDER BY knn.distance`,
+          [queryVector, candidateLimit]
+        );
+      }
+      const knnRows = semanticResults.rows || [];
+
+      // Keyword candidates from the FTS5 index, best BM25 first
+      // (bm25() is negative - lower means a better match)
+      const ftsQuery = buildFtsQuery(parsed.keywords);
+      let keywordRows: any[] = [];
+      if (ftsQuery) {
+        try {
+          const keywordResults = this.db!.executeSync(
+            `SELECT
+              f.id,
+              f.uri,
+              f.filename,
+              f.file_type,
+              f.caption,
+              f.thumbnail,
+              f.created_at,
+              files_fts.notes,
+              files_fts.tags,
+              vec_distance_cosine(v.embedding, ?) AS distance,
+              bm25(files_fts) AS bm25
+             FROM files_fts
+             INNER JOIN files f ON f.id = files_fts.rowid
+             INNER JOIN file_vectors v ON f.id = v.file_id
+             WHERE files_fts MATCH ?${filter.sql ? ` AND ${filter.sql}` : ''}
+             ORDER BY bm25
+             LIMIT ?`,
+            [queryVector, ftsQuery, ...filter.params, candidateLimit]
+          );
+          keywordRows = keywordResults.rows || [];
+        } catch (error) {
+          // A malformed MATCH expression shouldn't take semantic results down with it
+          console.warn('[MemoryEngine] Keyword search failed:', error);
+        }
+      }
+
+      // Rank positions (0-based) in each list - KNN rows come back nearest first
+      const semanticRanks = new Map<number, number>();
+      knnRows.forEach((row: any, index: number) => {
+        semanticRanks.set(row.id as number, index);
+      });
+      const keywordRanks = new Map<number, number>();
+      keywordRows.forEach((row: any, index: number) => {
+        keywordRanks.set(row.id as number, index);
+      });
+
+      // Merge both candidate sets by file id
+      const candidates = new Map<number, any>();
+      for (const row of [...knnRows, ...keywordRows]) {
+        candidates.set(row.id as number, row);
+      }
+
+      console.log(`[MemoryEngine] Found ${candidates.size} candidate files`);
+
+      if (candidates.size === 0) {
+        console.log('[MemoryEngine] No candidate files');
+        return emptyPage;
+      }
+
+      const queryTerms = parseQueryTerms(parsed.keywords);
+
+      const scored = Array.from(candidates.values()).map((row: any) => {
+        const id = row.id as number;
+        const match = explainMatch(row, queryTerms, keywordRanks.has(id));
+
+        // Reciprocal rank fusion - only positions matter, so BM25 and cosine
+        // scales never have to be weighed against each other
+        const semanticRank = semanticRanks.get(id);
+        const keywordRank = keywordRanks.get(id);
+        const fusedScore =
+          (semanticRank !== undefined ? 1 / (RRF_K + semanticRank + 1) : 0) +
+          (keywordRank !== undefined ? 1 / (RRF_K + keywordRank + 1) : 0);
+
+        return {
+          result: {
+            id,
+            uri: row.uri,
+            filename: row.filename,
+            file_type: row.file_type as 'image' | 'pdf',
+            caption: row.caption,
+            thumbnail: row.thumbnail,
+            created_at: row.created_at,
+            distance: row.distance,
+            similarity: Math.max(match.semanticScore, match.keywordScore),
+            match,
+          },
+          fusedScore,
+        };
+      });
+
+      // Order by fused rank, then drop anything that isn't actually relevant
+      const relevant = scored
+        .sort((a, b) => b.fusedScore - a.fusedScore)
+        .map(({ result }) => result)
+        .filter(result => result.similarity >= SEARCH_MIN_RELEVANCE);
+
+      // A full candidate list may have more matches behind it. Semantic relevance
+      // only drops with distance, so KNN can stop once its farthest row is cut off.
+      const farthest = knnRows[knnRows.length - 1] as any;
+      const moreSemantic = knnRows.length === candidateLimit &&
+        semanticRelevance(farthest.distance) >= SEARCH_MIN_RELEVANCE;
+      const moreKeyword = keywordRows.length === candidateLimit;
+      const totalIsEstimate = (moreSemantic || moreKeyword) && candidateLimit < SEARCH_MAX_CANDIDATES;
+
+      // The pool ran out - keep what was already ranked and add the newly reached rows after it
+      let ranked = relevant;
+      if (previous) {
+        const seen = new Set(previous.results.map(result => result.id));
+        ranked = [...previous.results, ...relevant.filter(result => !seen.has(result.id))];
+      }
+      this.lastRanking = { key: rankingKey, results: ranked, totalIsEstimate };
+
+      const searchResults = ranked.slice(offset, offset + limit);
+
+      console.log(`[MemoryEngine] Search "${parsed.text}" returned ${searchResults.length} results (offset ${offset}, ${ranked.length} relevant)`);
+      return {
+        results: searchResults,
+        total: ranked.length,
+        totalIsEstimate,
+        dateRange: parsed.dateRange,
+        documentQuery: parsed.documentQuery,
+      };
+
+    } catch (error) {
+      console.error('[MemoryEngine] Search failed:', error);
+      return emptyPage; // Return empty results on error instead of throwing
+    }
+  }
+
+  /**
+   * Find memories similar to an indexed file ("more like this")
+   * Uses the file's stored vector, so no model has to be loaded
+   */
+  async findSimilar(fileId: number, options: SearchOptions = {}): Promise<SearchPage> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? SEARCH_RESULTS_LIMIT;
+    const emptyPage: SearchPage = {
+      results: [],
+      total: 0,
+      totalIsEstimate: false,
+      dateRange: null,
+      documentQuery: null,
+    };
+
+    try {
+      const vectorResult = this.db!.executeSync(
+        'SELECT vec_to_json(embedding) AS embedding FROM file_vectors WHERE file_id = ?',
+        [fileId]
+      );
+      const queryVector = (vectorResult.rows?.[0] as any)?.embedding as string | undefined;
+      if (!queryVector) {
+        console.warn(`[MemoryEngine] No stored vector for file ${fileId}`);
+        return emptyPage;
+      }
+
+      // +1 because the file itself is always its own nearest neighbour
+      const candidateLimit = getCandidateLimit(offset, limit);
+      const knnResults = this.db!.executeSync(
+        `WITH knn AS (
+           SELECT file_id, distance
+           FROM file_vectors
+           WHERE embedding MATCH ? AND k = ?
+         )
+         SELECT
+          f.id,
+          f.uri,
+          f.filename,
+          f.file_type,
+          f.caption,
+          f.thumbnail,
+          f.created_at,
+          knn.distance
+         FROM knn
+         INNER JOIN files f ON f.id = knn.file_id
+         WHERE f.id != ?
+         ORDER BY knn.distance`,
+        [queryVector, candidateLimit + 1, fileId]
+      );
+      const rows = knnResults.rows || [];
+
+      const relevant = rows
+        .map((row: any) => ({
+          id: row.id,
+          uri: row.uri,
+          filename: row.filename,
+          file_type: row.file_type as 'image' | 'pdf',
+          caption: row.caption,
+          thumbnail: row.thumbnail,
+          created_at: row.created_at,
+          distance: row.distance,
+          similarity: semanticRelevance(row.distance),
+          match: explainMatch(row, [], false),
+        }))
+        .filter(result => result.similarity >= SEARCH_MIN_RELEVANCE);
+
+      // Rows come back nearest first, so only a full, all-relevant list can have more behind it
+      const totalIsEstimate = rows.length === candidateLimit &&
+        relevant.length === rows.length &&
+        candidateLimit < SEARCH_MAX_CANDIDATES;
+
+      const searchResults = relevant.slice(offset, offset + limit);
+      console.log(`[MemoryEngine] Found ${relevant.length} files similar to ${fileId}`);
+      return {
+        results: searchResults,
+        total: relevant.length,
+        totalIsEstimate,
+        dateRange: null,
+        documentQuery: null,
+      };
+    } catch (error) {
+      console.error('[MemoryEngine] Similar search failed:', error);
+      return emptyPage;
+    }
+  }
+
+  /**
+   * Search with filters but no free text - every matching file is a full match
+   */
+  private executeFilterOnlySearch(
+    filter: { sql: string; params: (string | number)[] },
+    offset: number,
+    limit: number,
+    parsed: ParsedQuery
+  ): SearchPage {
+    const countResult = this.db!.executeSync(
+      `SELECT COUNT(*) as count FROM files f WHERE ${filter.sql}`,
+      filter.params
+    );
+    const total = (countResult.rows?.[0] as any)?.count || 0;
+
+    const results = this.db!.executeSync(
+      `SELECT f.id, f.uri, f.filename, f.file_type, f.caption, f.thumbnail, f.created_at
+       FROM files f
+       WHERE ${filter.sql}
+       ORDER BY f.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [...filter.params, limit, offset]
+    );
+
+    const searchResults = (results.rows || []).map((row: any) => ({
+      id: row.id,
+      uri: row.uri,
+      filename: row.filename,
+      file_type: row.file_type as 'image' | 'pdf',
+      caption: row.caption,
+      thumbnail: row.thumbnail,
+      created_at: row.created_at,
+      distance: 0,
+      similarity: 1,
+      match: { semanticScore: 0, keywordScore: 0, matchedTerms: [] },
+    }));
+
+    console.log(`[MemoryEngine] Filter-only search returned ${searchResults.length} of ${total} files`);
+    return {
+      results: searchResults,
+      total,
+      totalIsEstimate: false,
+      dateRange: parsed.dateRange,
+      documentQuery: parsed.documentQuery,
+    };
+  }
+
+  /**
+   * Remember a query the user ran, for history and suggestions
+   */
+  async recordSearch(query: string): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
 
-      console.log(`[MemoryEngine] Found ${results.rows?.length || 0} files in database`);
+    try {
+      recordSearch(this.db!, query);
+    } catch (error) {
+      console.error('[MemoryEngine] Failed to record search:', error);
+    }
+  }
 
-      if (!results.rows || results.rows.length === 0) {
-        console.log('[MemoryEngine] No files in database');
-        return [];
-      }
+  /**
+   * Suggestions for the search bar (recent queries when empty, completions while typing)
+   */
+  async getSearchSuggestions(text: string): Promise<SearchSuggestion[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
 
-      // Calculate hybrid score (semantic + keyword) for each file
-      const scored = results.rows.map((row: any) => {
-        const fileEmbedding = jsonToVector(row.embedding);
-        const semanticScore = cosineSimilarity(queryEmbedding, fileEmbedding);
-        
-        // Keyword matching on caption and filename
-        const captionKeywordScore = keywordMatchScore(query, row.caption || '');
-        const filenameKeywordScore = keywordMatchScore(query, row.filename || '');
-        const keywordScore = Math.max(captionKeywordScore, filenameKeywordScore);
-        
-        // Hybrid score: 60% semantic + 40% keyword boost
-        // If keywords match, boost the score significantly
-        const hybridScore = semanticScore * 0.6 + keywordScore * 0.4;
-        
-        // Normalize to 0-1 range and boost for display
-        const displaySimilarity = Math.min(1, hybridScore * 1.5);
-        
-        return {
-          id: row.id,
-          uri: row.uri,
-          filename: row.filename,
-          file_type: row.file_type as 'image' | 'pdf',
-          caption: row.caption,
-          thumbnail: row.thumbnail,
-          created_at: row.created_at,
-          distance: 1 - displaySimilarity,
-          similarity: displaySimilarity,
-        };
-      });
+    try {
+      return getSuggestions(this.db!, text);
+    } catch (error) {
+      console.error('[MemoryEngine] Failed to get suggestions:', error);
+      return [];
+    }
+  }
 
-      // Sort by similarity (highest first) and take top K
-      const searchResults = scored
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, SEARCH_RESULTS_LIMIT);
+  /**
+   * Remove a query from search history
+   */
+  async deleteSearchHistoryEntry(query: string): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    deleteSearch(this.db!, query);
+    console.log(`[MemoryEngine] Removed "${query}" from search history`);
+  }
+
+  /**
+   * Save a query as a smart album
+   */
+  async saveSearch(
+    name: string,
+    query: string,
+    parseDates: boolean = true,
+    parseDocuments: boolean = true
+  ): Promise<SavedSearch> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const saved = saveSearch(this.db!, name, query, parseDates, parseDocuments);
+    console.log(`[MemoryEngine] Saved search "${saved.name}": ${saved.query}`);
+    return saved;
+  }
 
-      console.log(`[MemoryEngine] Search "${query}" returned ${searchResults.length} results`);
-      return searchResults;
+  /**
+   * Get all smart albums in the order they were created
+   */
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
 
+    try {
+      return getSavedSearches(this.db!);
     } catch (error) {
-      console.error('[MemoryEngine] Search failed:', error);
-      return []; // Return empty results on error instead of throwing
+      console.error('[MemoryEngine] Failed to get saved searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a smart album (the memories in it are not affected)
+   */
+  async deleteSavedSearch(id: number): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
     }
+
+    deleteSavedSearch(this.db!, id);
+    console.log(`[MemoryEngine] Deleted saved search ${id}`);
   }
 
   /**
@@ -936,6 +2306,433 @@ export class MemoryEngine {
     }
   }
 
+  /**
+   * Get one memory with the extra fields the detail screen shows
+   */
+  async getFileDetails(id: number): Promise<FileDetails | null> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const result = this.db!.executeSync(
+      `SELECT id, uri, filename, file_type, caption, caption_model, caption_edited,
+              thumbnail, created_at, source_uri
+       FROM files
+       WHERE id = ?`,
+      [id]
+    );
+    const row = result.rows?.[0] as any;
+    if (!row) {
+      return null;
+    }
+
+    let size: number | null = null;
+    try {
+      const stat = await RNFS.stat(row.uri.replace('file://', ''));
+      size = Number(stat.size);
+    } catch (error) {
+      console.warn(`[MemoryEngine] Could not stat ${row.filename}:`, error);
+    }
+
+    return {
+      id: row.id,
+      uri: row.uri,
+      filename: row.filename,
+      file_type: row.file_type as 'image' | 'pdf',
+      caption: row.caption,
+      caption_model: row.caption_model ?? null,
+      caption_edited: row.caption_edited === 1,
+      note: getNote(this.db!, id),
+      tags: getFileTags(this.db!, id),
+      auto_tags: getFileAutoTags(this.db!, id),
+      document: row.file_type === 'pdf' ? getDocumentFields(this.db!, id) : null,
+      thumbnail: row.thumbnail,
+      created_at: row.created_at,
+      source_uri: row.source_uri ?? null,
+      size,
+    };
+  }
+
+  /**
+   * Load a memory that is about to be re-embedded, refusing while the models are busy
+   */
+  private async getFileForUpdate(id: number): Promise<FileDetails> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (this.indexingInProgress) {
+      throw new Error('Memories cannot be changed while files are being indexed');
+    }
+
+    const file = await this.getFileDetails(id);
+    if (!file) {
+      throw new Error(`Memory ${id} not found`);
+    }
+    return file;
+  }
+
+  /**
+   * Swap a file's vector and re-tag it (call inside a transaction)
+   */
+  private replaceVector(id: number, embedding: number[]): void {
+    this.lastRanking = null;
+
+    // vec0 rows are replaced rather than updated in place
+    this.db!.executeSync('DELETE FROM file_vectors WHERE file_id = ?', [id]);
+    this.db!.executeSync(
+      'INSERT INTO file_vectors (file_id, embedding) VALUES (?, ?)',
+      [id, vectorToJson(embedding)]
+    );
+    tagFile(this.db!, id);
+  }
+
+  /**
+   * Store a new caption and its embedding together
+   * captionModel is left as it was when not given
+   */
+  private saveCaption(
+    id: number,
+    caption: string,
+    embedding: number[],
+    fields: { captionModel?: string; edited: boolean; document?: DocumentFields }
+  ): void {
+    this.db!.executeSync('BEGIN');
+    try {
+      this.db!.executeSync(
+        `UPDATE files
+         SET caption = ?, caption_model = COALESCE(?, caption_model), caption_edited = ?
+         WHERE id = ?`,
+        [caption, fields.captionModel ?? null, fields.edited ? 1 : 0, id]
+      );
+      if (fields.document) {
+        saveDocumentFields(this.db!, id, fields.document);
+      }
+      this.replaceVector(id, embedding);
+      this.db!.executeSync('COMMIT');
+    } catch (error) {
+      this.db!.executeSync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a memory's caption with the user's own text and re-embed it
+   */
+  async updateCaption(id: number, caption: string): Promise<FileDetails> {
+    const text = caption.trim();
+    if (!text) {
+      throw new Error('Caption cannot be empty');
+    }
+
+    const { filename } = await this.getFileForUpdate(id);
+
+    return this.runModelTask(`edit caption ${filename}`, async () => {
+      // Read again - an edit queued ahead of this one may have changed the note or tags
+      const file = await this.getFileForUpdate(id);
+      await this.loadEmbeddingModel();
+      const embedding = await this.generateEmbedding(
+        composeEmbeddingText(text, file.note, file.tags)
+      );
+      this.saveCaption(id, text, embedding, { edited: true });
+
+      console.log(`[MemoryEngine] Caption edited for ${file.filename}`);
+      return { ...file, caption: text, caption_edited: true };
+    }, { replaceable: false });
+  }
+
+  /**
+   * Caption a memory again with the selected vision model (or PDF text) and re-embed it.
+   * Runs in the search queue because it swaps models the same way image search does.
+   * A caption the user wrote is only replaced with overwriteEdited.
+   */
+  async recaptionFile(
+    id: number,
+    { overwriteEdited = false }: { overwriteEdited?: boolean } = {}
+  ): Promise<FileDetails> {
+    const { filename } = await this.getFileForUpdate(id);
+
+    return this.runModelTask(`recaption ${filename}`, async () => {
+      const file = await this.getFileForUpdate(id);
+      if (file.caption_edited && !overwriteEdited) {
+        throw new Error('This caption was written by you - confirm to replace it');
+      }
+      let caption: string;
+      let captionModel: string;
+      let document: DocumentFields | undefined;
+
+      if (file.file_type === 'pdf') {
+        ({ caption, document } = await this.generatePdfCaption({
+          uri: file.uri,
+          name: file.filename,
+          type: 'pdf',
+          mimeType: 'application/pdf',
+          size: file.size ?? 0,
+        }));
+        captionModel = CAPTION_SOURCE_PDF_TEXT;
+      } else if (USE_VISION_MODEL) {
+        if (this.embeddingModel) {
+          console.log('[MemoryEngine] Unloading embedding model to free RAM for vision...');
+          await this.unloadEmbeddingModel();
+        }
+
+        try {
+          this.reportProgress('captioning', 1, 1, `Analyzing image: ${file.filename}`);
+          await this.loadVisionModel();
+          caption = await this.captionImageFile(file.uri, file.filename);
+          captionModel = this.selectedVisionModel;
+        } finally {
+          await this.unloadVisionModel();
+        }
+      } else {
+        caption = filenameCaption(file.filename);
+        captionModel = CAPTION_SOURCE_FILENAME;
+      }
+
+      await this.loadEmbeddingModel();
+      this.reportProgress('embedding', 1, 1, 'Generating vector');
+      const embedding = await this.generateEmbedding(
+        composeEmbeddingText(caption, file.note, file.tags)
+      );
+
+      this.saveCaption(id, caption, embedding, { captionModel, edited: false, document });
+
+      console.log(`[MemoryEngine] Re-captioned ${file.filename}: "${caption.substring(0, 50)}..."`);
+      return {
+        ...file,
+        caption,
+        caption_model: captionModel,
+        caption_edited: false,
+        document: document ?? file.document,
+      };
+    }, { replaceable: false });
+  }
+
+  /**
+   * Change a memory's note or tags and re-embed it with them.
+   * The new vector is computed first so the change and the vector commit together.
+   */
+  private async annotateFile(
+    id: number,
+    label: string,
+    next: (file: FileDetails) => { note: string | null; tags: string[] },
+    write: () => void
+  ): Promise<FileDetails> {
+    const { filename } = await this.getFileForUpdate(id);
+
+    return this.runModelTask(`${label} ${filename}`, async () => {
+      // Read again - an edit queued ahead of this one may have changed it
+      const file = await this.getFileForUpdate(id);
+      const { note, tags } = next(file);
+      await this.loadEmbeddingModel();
+      const embedding = await this.generateEmbedding(
+        composeEmbeddingText(file.caption, note, tags)
+      );
+
+      this.db!.executeSync('BEGIN');
+      try {
+        write();
+        this.replaceVector(id, embedding);
+        this.db!.executeSync('COMMIT');
+      } catch (error) {
+        this.db!.executeSync('ROLLBACK');
+        throw error;
+      }
+
+      return { ...file, note, tags: getFileTags(this.db!, id) };
+    }, { replaceable: false });
+  }
+
+  /**
+   * Save a memory's note (empty text removes it)
+   */
+  async setNote(id: number, note: string): Promise<FileDetails> {
+    const text = note.trim();
+    const updated = await this.annotateFile(
+      id,
+      'note',
+      file => ({ note: text || null, tags: file.tags }),
+      () => setNote(this.db!, id, text)
+    );
+    console.log(`[MemoryEngine] Note ${text ? 'saved' : 'removed'} for ${updated.filename}`);
+    return updated;
+  }
+
+  /**
+   * Tag a memory (the tag is created if it doesn't exist yet)
+   */
+  async addTag(id: number, name: string): Promise<FileDetails> {
+    const tag = cleanTagName(name);
+    if (!tag) {
+      throw new Error('Tag name cannot be empty');
+    }
+
+    const updated = await this.annotateFile(
+      id,
+      'tag',
+      file => ({
+        note: file.note,
+        tags: file.tags.some(t => t.toLowerCase() === tag.toLowerCase())
+          ? file.tags
+          : [...file.tags, tag],
+      }),
+      () => addFileTag(this.db!, id, tag)
+    );
+    console.log(`[MemoryEngine] Tagged ${updated.filename} with "${tag}"`);
+    return updated;
+  }
+
+  /**
+   * Remove a tag from one memory
+   */
+  async removeTag(id: number, name: string): Promise<FileDetails> {
+    const tag = cleanTagName(name);
+    const updated = await this.annotateFile(
+      id,
+      'untag',
+      file => ({
+        note: file.note,
+        tags: file.tags.filter(t => t.toLowerCase() !== tag.toLowerCase()),
+      }),
+      () => removeFileTag(this.db!, id, tag)
+    );
+    console.log(`[MemoryEngine] Removed tag "${tag}" from ${updated.filename}`);
+    return updated;
+  }
+
+  /**
+   * Get all tags with their usage counts
+   */
+  async getAllTags(): Promise<Tag[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      return getAllTags(this.db!);
+    } catch (error) {
+      console.error('[MemoryEngine] Failed to get tags:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete a tag everywhere and re-embed the memories that had it
+   */
+  async deleteTag(tagId: number): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (this.indexingInProgress) {
+      throw new Error('Memories cannot be changed while files are being indexed');
+    }
+
+    await this.runModelTask(`delete tag ${tagId}`, async () => {
+      // Read once it's this task's turn - queued edits may have tagged more memories
+      const fileIds = getTaggedFileIds(this.db!, tagId);
+      const tagName = getAllTags(this.db!).find(t => t.id === tagId)?.name.toLowerCase();
+      const embeddings = new Map<number, number[]>();
+      if (fileIds.length > 0) {
+        await this.loadEmbeddingModel();
+      }
+      for (let i = 0; i < fileIds.length; i++) {
+        const file = await this.getFileDetails(fileIds[i]);
+        if (!file) continue;
+
+        this.reportProgress('embedding', i + 1, fileIds.length, `Updating ${file.filename}`);
+        const tags = file.tags.filter(t => t.toLowerCase() !== tagName);
+        embeddings.set(
+          file.id,
+          await this.generateEmbedding(composeEmbeddingText(file.caption, file.note, tags))
+        );
+      }
+
+      this.db!.executeSync('BEGIN');
+      try {
+        deleteTag(this.db!, tagId);
+        embeddings.forEach((embedding, fileId) => this.replaceVector(fileId, embedding));
+        this.db!.executeSync('COMMIT');
+      } catch (error) {
+        this.db!.executeSync('ROLLBACK');
+        throw error;
+      }
+
+      console.log(`[MemoryEngine] Deleted tag ${tagId} from ${fileIds.length} memories`);
+    }, { replaceable: false });
+  }
+
+  /**
+   * Embed vocabulary labels that are new or reworded, then re-tag every memory
+   * if the vocabulary changed. The embedding model must be loaded.
+   * Returns whether tags were recomputed.
+   */
+  private async syncAutoTagLabels(): Promise<boolean> {
+    if (isVocabularyCurrent(this.db!, EMBEDDING_MODEL)) {
+      return false;
+    }
+
+    const labels = getLabelsToEmbed(this.db!, EMBEDDING_MODEL);
+    const embeddings: string[] = [];
+    for (const label of labels) {
+      embeddings.push(vectorToJson(await this.generateEmbedding(label.description)));
+    }
+
+    this.db!.executeSync('BEGIN');
+    try {
+      labels.forEach((label, i) => saveLabelEmbedding(this.db!, label, EMBEDDING_MODEL, embeddings[i]));
+      retagAllFiles(this.db!);
+      this.db!.executeSync('COMMIT');
+    } catch (error) {
+      this.db!.executeSync('ROLLBACK');
+      throw error;
+    }
+
+    this.lastRanking = null;
+    console.log(`[MemoryEngine] Automatic tags recomputed (${labels.length} labels embedded)`);
+    return true;
+  }
+
+  /**
+   * Re-tag the library if the label vocabulary changed since it was last tagged.
+   * Loads the embedding model only when there is something to do.
+   * Returns whether tags were recomputed.
+   */
+  async refreshAutoTags(): Promise<boolean> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    // Indexing picks the change up itself once it loads the embedding model
+    if (this.indexingInProgress || isVocabularyCurrent(this.db!, EMBEDDING_MODEL)) {
+      return false;
+    }
+    if ((await this.getFileCount()) === 0) {
+      return false;
+    }
+
+    return this.runModelTask('auto tags', async () => {
+      await this.loadEmbeddingModel();
+      return await this.syncAutoTagLabels();
+    }, { replaceable: false });
+  }
+
+  /**
+   * Get the automatic tags in use with their file counts
+   */
+  async getAutoTags(): Promise<AutoTag[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      return getAutoTags(this.db!);
+    } catch (error) {
+      console.error('[MemoryEngine] Failed to get automatic tags:', error);
+      return [];
+    }
+  }
+
   /**
    * Get count of indexed files
    */
@@ -955,6 +2752,56 @@ export class MemoryEngine {
     }
   }
 
+  /**
+   * Delete a single memory
+   */
+  async deleteFile(id: number): Promise<void> {
+    await this.deleteFiles([id]);
+  }
+
+  /**
+   * Delete memories: their files rows, vectors, library copies and thumbnails
+   */
+  async deleteFiles(ids: number[]): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const managed = this.db!.executeSync(
+      `SELECT uri, thumbnail FROM files WHERE id IN (${placeholders})`,
+      ids
+    );
+
+    this.db!.executeSync('BEGIN');
+    try {
+      for (const id of ids) {
+        this.db!.executeSync('DELETE FROM file_vectors WHERE file_id = ?', [id]);
+      }
+      deleteFileAnnotations(this.db!, ids);
+      deleteFileAutoTags(this.db!, ids);
+      deleteDocumentFields(this.db!, ids);
+      this.db!.executeSync(`DELETE FROM files WHERE id IN (${placeholders})`, ids);
+      this.db!.executeSync('COMMIT');
+    } catch (error) {
+      this.db!.executeSync('ROLLBACK');
+      console.error('[MemoryEngine] Failed to delete files:', error);
+      throw error;
+    }
+
+    // A kept ranking would page through deleted memories
+    this.lastRanking = null;
+
+    // Only remove files on disk once the rows are gone
+    await this.removeUnreferencedFiles(managed.rows || []);
+
+    console.log(`[MemoryEngine] Deleted ${ids.length} files`);
+  }
+
   /**
    * Clear all indexed data
    */
@@ -966,6 +2813,20 @@ export class MemoryEngine {
     try {
       this.db!.executeSync('DELETE FROM file_vectors');
       this.db!.executeSync('DELETE FROM files');
+      this.db!.executeSync('DELETE FROM indexing_job_files');
+      this.db!.executeSync('DELETE FROM indexing_jobs');
+      this.queryEmbeddingCache?.clear();
+      this.lastRanking = null;
+      clearSearchHistory(this.db!);
+      clearAnnotations(this.db!);
+      clearAutoTags(this.db!);
+      clearDocumentFields(this.db!);
+
+      for (const dir of [getThumbnailDir(), getLibraryDir()]) {
+        if (await RNFS.exists(dir)) {
+          await RNFS.unlink(dir);
+        }
+      }
       console.log('[MemoryEngine] All data cleared');
     } catch (error) {
       console.error('[MemoryEngine] Failed to clear data:', error);
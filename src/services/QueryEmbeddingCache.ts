@@ -0,0 +1,125 @@
+/**
+ * QueryEmbeddingCache - Remembers embeddings of past search queries
+ *
+ * Handles:
+ * - In-memory LRU for the current session
+ * - Persistence in the query_embeddings table across launches
+ * - Keys made of normalized query text + embedding model
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import { QUERY_CACHE_MEMORY_SIZE, QUERY_CACHE_MAX_ROWS } from '../constants/config';
+
+// Case and spacing don't change what a query means to the embedder
+export const normalizeQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export class QueryEmbeddingCache {
+  // Map iteration order is insertion order, so the first key is least recently used
+  private memory = new Map<string, number[]>();
+
+  constructor(
+    private db: DB,
+    private model: string
+  ) {}
+
+  /**
+   * Whether an embedding is in memory (a lookup won't touch the database)
+   */
+  has(query: string): boolean {
+    return this.memory.has(normalizeQuery(query));
+  }
+
+  /**
+   * Look up a cached embedding, falling back to the database
+   */
+  get(query: string): number[] | null {
+    const key = normalizeQuery(query);
+
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      this.touch(key);
+      return cached;
+    }
+
+    try {
+      const result = this.db.executeSync(
+        'SELECT embedding FROM query_embeddings WHERE query = ? AND model = ?',
+        [key, this.model]
+      );
+      const json = (result.rows?.[0] as any)?.embedding as string | undefined;
+      if (!json) {
+        return null;
+      }
+
+      const embedding = JSON.parse(json) as number[];
+      this.remember(key, embedding);
+      this.touch(key);
+      return embedding;
+    } catch (error) {
+      // A broken cache row just means running the model again
+      console.warn('[QueryEmbeddingCache] Lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store an embedding in memory and in the database
+   */
+  set(query: string, embedding: number[]): void {
+    const key = normalizeQuery(query);
+    this.remember(key, embedding);
+
+    try {
+      this.db.executeSync(
+        `INSERT OR REPLACE INTO query_embeddings (query, model, embedding, last_used_at)
+         VALUES (?, ?, ?, ?)`,
+        [key, this.model, JSON.stringify(embedding), Date.now()]
+      );
+      this.db.executeSync(
+        `DELETE FROM query_embeddings
+         WHERE rowid NOT IN (
+           SELECT rowid FROM query_embeddings ORDER BY last_used_at DESC LIMIT ?
+         )`,
+        [QUERY_CACHE_MAX_ROWS]
+      );
+    } catch (error) {
+      console.warn('[QueryEmbeddingCache] Failed to persist embedding:', error);
+    }
+  }
+
+  /**
+   * Drop everything (memory and database)
+   */
+  clear(): void {
+    this.memory.clear();
+    this.db.executeSync('DELETE FROM query_embeddings');
+  }
+
+  // Move a key to the most recently used end, evicting the oldest if full
+  private remember(key: string, embedding: number[]): void {
+    this.memory.delete(key);
+    this.memory.set(key, embedding);
+
+    if (this.memory.size > QUERY_CACHE_MEMORY_SIZE) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest !== undefined) {
+        this.memory.delete(oldest);
+      }
+    }
+  }
+
+  // Record use so the database keeps frequently repeated queries
+  private touch(key: string): void {
+    try {
+      this.db.executeSync(
+        'UPDATE query_embeddings SET last_used_at = ? WHERE query = ? AND model = ?',
+        [Date.now(), key, this.model]
+      );
+    } catch (error) {
+      console.warn('[QueryEmbeddingCache] Failed to update last use:', error);
+    }
+  }
+}
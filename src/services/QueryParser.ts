@@ -0,0 +1,399 @@
+/**
+ * QueryParser - Turns search box text into database queries
+ *
+ * Handles:
+ * - Filter tokens (type:, before:, after:, name:, is:, doc:) and SQL predicates for them
+ * - Date words ("last week", "in March") via DateParser
+ * - Document words ("invoice over 500 from Acme") via DocumentExtractor
+ * - Splitting queries into keyword terms (words, prefixes, "phrases")
+ * - FTS5 MATCH expressions
+ * - Finding which terms a caption or filename actually contains
+ */
+
+import type {
+  DateRange,
+  DocumentQuery,
+  FileType,
+  ParsedQuery,
+  QueryTerm,
+  SearchFilters,
+} from '../types';
+import { extractDateRange } from './DateParser';
+import { extractDocumentQuery, parseDocumentType } from './DocumentExtractor';
+
+// Minimum length for a bare word to be used as a keyword
+const MIN_TERM_LENGTH = 2;
+
+// Words nearly every caption contains - matching one says nothing about relevance
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to',
+  'was', 'with',
+]);
+
+// key:value or key:"quoted value" - only at the start of a word
+const FILTER_REGEX = /(^|\s)(type|before|after|name|is|doc):("([^"]*)"|[^\s"]+)/gi;
+
+const FILE_TYPE_ALIASES: Record<string, FileType> = {
+  image: 'image',
+  images: 'image',
+  photo: 'image',
+  photos: 'image',
+  pdf: 'pdf',
+  pdfs: 'pdf',
+};
+
+// Wrap a term in double quotes so FTS5 operators inside it are taken literally
+const quoteFtsTerm = (term: string): string => `"${term.replace(/"/g, '')}"`;
+
+// Split text into lowercase word tokens (same idea as the unicode61 tokenizer)
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9\u00C0-\uFFFF]+/).filter(Boolean);
+
+/**
+ * Split a query into keyword terms:
+ * - "quoted text" becomes a phrase
+ * - word* is a prefix; the last word is treated as a prefix while
+ *   the user is still typing it (no trailing space)
+ * - stop words ("of", "the") are dropped unless quoted or written as word*
+ */
+export const parseQueryTerms = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+
+  // Pull out "exact phrases" first
+  const phraseRegex = /"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = phraseRegex.exec(query)) !== null) {
+    const phrase = match[1].trim().toLowerCase();
+    if (phrase) {
+      terms.push({ text: phrase, prefix: false, phrase: true });
+    }
+  }
+
+  // Unbalanced quote - treat the stray character as whitespace
+  const remainder = query.replace(phraseRegex, ' ').replace(/"/g, ' ');
+  const stillTyping = !/\s$/.test(remainder);
+  const words = remainder.split(/\s+/).filter(Boolean);
+
+  words.forEach((word, index) => {
+    const explicitPrefix = word.endsWith('*');
+    const text = word.replace(/\*+$/, '').toLowerCase();
+    if (text.length < MIN_TERM_LENGTH || (!explicitPrefix && STOP_WORDS.has(text))) {
+      return;
+    }
+
+    const isLastWord = index === words.length - 1;
+    terms.push({
+      text,
+      prefix: explicitPrefix || (isLastWord && stillTyping),
+      phrase: false,
+    });
+  });
+
+  return terms;
+};
+
+/**
+ * Build an FTS5 MATCH expression from a query. Terms are OR'd so BM25
+ * ranks files matching more of them higher.
+ * Returns null when there is nothing to match on.
+ */
+export const buildFtsQuery = (query: string): string | null => {
+  const terms = parseQueryTerms(query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map(term => (term.prefix ? `${quoteFtsTerm(term.text)}*` : quoteFtsTerm(term.text)))
+    .join(' OR ');
+};
+
+/**
+ * Return the terms that appear in the given text
+ */
+export const findMatchedTerms = (terms: QueryTerm[], text: string): QueryTerm[] => {
+  const tokens = tokenize(text);
+  const joined = ` ${tokens.join(' ')} `;
+
+  return terms.filter(term => {
+    if (term.phrase) {
+      return joined.includes(` ${tokenize(term.text).join(' ')} `);
+    }
+    return term.prefix
+      ? tokens.some(token => token.startsWith(term.text))
+      : tokens.includes(term.text);
+  });
+};
+
+/**
+ * Find where terms occur in the text, for highlighting.
+ * Returns [start, end) character ranges, sorted and non-overlapping.
+ */
+export const findTermRanges = (terms: QueryTerm[], text: string): Array<[number, number]> => {
+  // Word tokens with their positions in the original text
+  const tokens: Array<{ text: string; start: number; end: number }> = [];
+  const wordRegex = /[a-z0-9\u00C0-\uFFFF]+/gi;
+  let match: RegExpExecArray | null;
+  while ((match = wordRegex.exec(text)) !== null) {
+    tokens.push({
+      text: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    const words = term.phrase ? tokenize(term.text) : [term.text];
+    if (words.length === 0) continue;
+
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const found = words.every((word, offset) => {
+        const token = tokens[i + offset].text;
+        return term.prefix ? token.startsWith(word) : token === word;
+      });
+      if (found) {
+        ranges.push([tokens[i].start, tokens[i + words.length - 1].end]);
+      }
+    }
+  }
+
+  // Merge overlaps (a word can match several terms)
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Parse YYYY, YYYY-MM or YYYY-MM-DD into the start of that period (local time).
+ * Returns null for anything else, including impossible dates like 2025-02-31.
+ */
+export const parseDateStart = (value: string): number | null => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : 0;
+  const day = match[3] ? Number(match[3]) : 1;
+  const date = new Date(year, month, day);
+
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date.getTime();
+};
+
+/**
+ * Split search box text into filters and free text.
+ * Tokens with an unknown or invalid value (type:foo, before:soon) stay in the text.
+ * With parseDates, a date expression in the text is also turned into a filter;
+ * with parseDocuments, so are document words ("invoice over 500 from Acme").
+ */
+export const parseSearchQuery = (
+  query: string,
+  parseDates = true,
+  parseDocuments = true
+): ParsedQuery => {
+  const filters: SearchFilters = {};
+
+  let remainder = query.replace(
+    FILTER_REGEX,
+    (token: string, lead: string, key: string, raw: string, quoted: string | undefined) => {
+      const value = (quoted ?? raw).trim();
+
+      switch (key.toLowerCase()) {
+        case 'type': {
+          const fileType = FILE_TYPE_ALIASES[value.toLowerCase()];
+          if (!fileType) return token;
+          filters.fileType = fileType;
+          return lead;
+        }
+        case 'before':
+        case 'after': {
+          const time = parseDateStart(value);
+          if (time === null) return token;
+          filters[key.toLowerCase() as 'before' | 'after'] = time;
+          return lead;
+        }
+        case 'name': {
+          if (!value) return token;
+          filters.name = [...(filters.name || []), value];
+          return lead;
+        }
+        case 'is': {
+          if (!value) return token;
+          filters.autoTags = [...(filters.autoTags || []), value.toLowerCase()];
+          return lead;
+        }
+        case 'doc': {
+          const documentType = parseDocumentType(value);
+          if (!documentType) return token;
+          filters.documentType = documentType;
+          return lead;
+        }
+        default:
+          return token;
+      }
+    }
+  );
+
+  let dateRange: DateRange | null = null;
+  if (parseDates) {
+    const extracted = extractDateRange(remainder);
+    dateRange = extracted.range;
+    remainder = extracted.remainder;
+  }
+
+  // Narrow any explicit before:/after: to the spoken range
+  if (dateRange) {
+    filters.after = Math.max(filters.after ?? dateRange.start, dateRange.start);
+    filters.before = Math.min(filters.before ?? dateRange.end, dateRange.end);
+  }
+
+  let documentQuery: DocumentQuery | null = null;
+  if (parseDocuments) {
+    const extracted = extractDocumentQuery(remainder);
+    documentQuery = extracted.query;
+    remainder = extracted.remainder;
+  }
+
+  if (documentQuery) {
+    // An explicit doc: token wins over a document word
+    if (!filters.documentType && documentQuery.documentType) {
+      filters.documentType = documentQuery.documentType;
+    }
+    if (documentQuery.minAmount !== null) filters.minAmount = documentQuery.minAmount;
+    if (documentQuery.maxAmount !== null) filters.maxAmount = documentQuery.maxAmount;
+    if (documentQuery.counterparty) filters.counterparty = documentQuery.counterparty;
+  }
+
+  const phrases = parseQueryTerms(remainder)
+    .filter(term => term.phrase)
+    .map(term => term.text);
+  if (phrases.length > 0) {
+    filters.phrases = phrases;
+  }
+
+  return {
+    text: remainder.replace(/"/g, ' ').replace(/\*+(?=\s|$)/g, '').replace(/\s+/g, ' ').trim(),
+    // Keep a trailing space - it tells parseQueryTerms the last word is finished
+    keywords: remainder.replace(/\s+/g, ' ').replace(/^ /, ''),
+    filters,
+    dateRange,
+    documentQuery,
+  };
+};
+
+/**
+ * Treat text as plain words - no filters, dates or phrases.
+ * Used for generated queries such as the caption of an example image.
+ */
+export const plainTextQuery = (text: string): ParsedQuery => {
+  const words = text.replace(/["*]/g, ' ').replace(/\s+/g, ' ').trim();
+  return { text: words, keywords: `${words} `, filters: {}, dateRange: null, documentQuery: null };
+};
+
+export const hasFilters = (filters: SearchFilters): boolean =>
+  Object.keys(filters).length > 0;
+
+/**
+ * Add an is:<label> token to search box text (no-op if it's already there)
+ */
+export const addAutoTagToken = (query: string, label: string): string => {
+  const current = parseSearchQuery(query, false).filters.autoTags || [];
+  if (current.includes(label.toLowerCase())) {
+    return query;
+  }
+  return `${query.trim()} is:${label}`.trim();
+};
+
+/**
+ * Remove every is:<label> token from search box text
+ */
+export const removeAutoTagToken = (query: string, label: string): string =>
+  query
+    .replace(FILTER_REGEX, (token: string, lead: string, key: string, raw: string, quoted: string | undefined) =>
+      key.toLowerCase() === 'is' && (quoted ?? raw).trim().toLowerCase() === label.toLowerCase()
+        ? lead
+        : token
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Escape LIKE wildcards so name:100% matches a literal percent sign
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Build a SQL predicate for the filters against the files table alias.
+ * Returns an empty string (and no params) when there are no filters.
+ */
+export const buildFilterClause = (
+  filters: SearchFilters,
+  alias = 'f'
+): { sql: string; params: (string | number)[] } => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.fileType) {
+    conditions.push(`${alias}.file_type = ?`);
+    params.push(filters.fileType);
+  }
+  if (filters.after !== undefined) {
+    conditions.push(`${alias}.created_at >= ?`);
+    params.push(filters.after);
+  }
+  if (filters.before !== undefined) {
+    conditions.push(`${alias}.created_at < ?`);
+    params.push(filters.before);
+  }
+  for (const name of filters.name || []) {
+    conditions.push(`${alias}.filename LIKE ? ESCAPE '\\'`);
+    params.push(`%${escapeLike(name)}%`);
+  }
+  for (const label of filters.autoTags || []) {
+    conditions.push(`${alias}.id IN (SELECT file_id FROM file_auto_tags WHERE label = ?)`);
+    params.push(label);
+  }
+
+  // Document fields live in their own table - one subquery for all of them
+  const documentConditions: string[] = [];
+  if (filters.documentType) {
+    documentConditions.push('document_type = ?');
+    params.push(filters.documentType);
+  }
+  if (filters.minAmount !== undefined) {
+    documentConditions.push('total_amount >= ?');
+    params.push(filters.minAmount);
+  }
+  if (filters.maxAmount !== undefined) {
+    documentConditions.push('total_amount <= ?');
+    params.push(filters.maxAmount);
+  }
+  if (filters.counterparty) {
+    documentConditions.push(`counterparty LIKE ? ESCAPE '\\'`);
+    params.push(`%${escapeLike(filters.counterparty)}%`);
+  }
+  if (documentConditions.length > 0) {
+    conditions.push(
+      `${alias}.id IN (SELECT file_id FROM document_fields WHERE ${documentConditions.join(' AND ')})`
+    );
+  }
+
+  for (const phrase of filters.phrases || []) {
+    conditions.push(`${alias}.id IN (SELECT rowid FROM files_fts WHERE files_fts MATCH ?)`);
+    params.push(quoteFtsTerm(phrase));
+  }
+
+  return { sql: conditions.join(' AND '), params };
+};
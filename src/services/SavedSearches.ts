@@ -0,0 +1,64 @@
+/**
+ * SavedSearches - Queries kept as named smart albums
+ *
+ * Handles:
+ * - Saving the current query under a name
+ * - Listing and removing albums
+ *
+ * Only the query text is stored: its filters (type:, before:, name:, phrases,
+ * date words) are parsed again each time an album is opened, so newly indexed
+ * files and relative dates like "last week" stay current.
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import type { SavedSearch } from '../types';
+
+const toSavedSearch = (row: any): SavedSearch => ({
+  id: row.id,
+  name: row.name,
+  query: row.query,
+  parseDates: row.parse_dates === 1,
+  parseDocuments: row.parse_documents === 1,
+  createdAt: row.created_at,
+});
+
+/**
+ * Save a query under a name - an album with the same name is replaced
+ */
+export const saveSearch = (
+  db: DB,
+  name: string,
+  query: string,
+  parseDates: boolean,
+  parseDocuments: boolean
+): SavedSearch => {
+  const cleanedName = name.trim();
+  const cleanedQuery = query.trim();
+  if (!cleanedName || !cleanedQuery) {
+    throw new Error('A saved search needs a name and a query');
+  }
+
+  db.executeSync(
+    `INSERT INTO saved_searches (name, query, parse_dates, parse_documents, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (name) DO UPDATE SET
+       name = excluded.name,
+       query = excluded.query,
+       parse_dates = excluded.parse_dates,
+       parse_documents = excluded.parse_documents`,
+    [cleanedName, cleanedQuery, parseDates ? 1 : 0, parseDocuments ? 1 : 0, Date.now()]
+  );
+
+  const result = db.executeSync('SELECT * FROM saved_searches WHERE name = ?', [cleanedName]);
+  return toSavedSearch(result.rows?.[0]);
+};
+
+export const getSavedSearches = (db: DB): SavedSearch[] => {
+  const result = db.executeSync('SELECT * FROM saved_searches ORDER BY created_at ASC');
+  return (result.rows || []).map(toSavedSearch);
+};
+
+export const deleteSavedSearch = (db: DB, id: number): void => {
+  db.executeSync('DELETE FROM saved_searches WHERE id = ?', [id]);
+};
@@ -0,0 +1,114 @@
+/**
+ * SearchHistory - Past queries and autocomplete suggestions
+ *
+ * Handles:
+ * - Recording queries the user actually ran
+ * - Recent queries for an empty search bar
+ * - Prefix completions from history and from words in indexed captions
+ */
+
+import type { DB } from '@op-engineering/op-sqlite';
+
+import { SEARCH_HISTORY_LIMIT, SEARCH_SUGGESTIONS_LIMIT } from '../constants/config';
+import { escapeLike } from './QueryParser';
+import type { SearchSuggestion } from '../types';
+
+// Shortest word worth completing from the caption vocabulary
+const MIN_COMPLETION_LENGTH = 2;
+
+const cleanQuery = (query: string): string => query.trim().replace(/\s+/g, ' ');
+
+/**
+ * Remember a query (case-insensitive - the latest spelling wins)
+ */
+export const recordSearch = (db: DB, query: string): void => {
+  const cleaned = cleanQuery(query);
+  if (cleaned.length < 2) {
+    return;
+  }
+
+  db.executeSync(
+    `INSERT INTO search_history (query, use_count, last_used_at)
+     VALUES (?, 1, ?)
+     ON CONFLICT (query) DO UPDATE SET
+       query = excluded.query,
+       use_count = use_count + 1,
+       last_used_at = excluded.last_used_at`,
+    [cleaned, Date.now()]
+  );
+  db.executeSync(
+    `DELETE FROM search_history
+     WHERE query NOT IN (
+       SELECT query FROM search_history ORDER BY last_used_at DESC LIMIT ?
+     )`,
+    [SEARCH_HISTORY_LIMIT]
+  );
+};
+
+export const deleteSearch = (db: DB, query: string): void => {
+  db.executeSync('DELETE FROM search_history WHERE query = ?', [query]);
+};
+
+export const clearSearchHistory = (db: DB): void => {
+  db.executeSync('DELETE FROM search_history');
+};
+
+/**
+ * Suggestions for the current search bar text:
+ * - empty text: most recent queries
+ * - otherwise: past queries starting with the text, then the last word
+ *   completed from terms that appear in the most captions and tags
+ */
+export const getSuggestions = (db: DB, text: string): SearchSuggestion[] => {
+  const limit = SEARCH_SUGGESTIONS_LIMIT;
+
+  if (!text.trim()) {
+    const recent = db.executeSync(
+      'SELECT query FROM search_history ORDER BY last_used_at DESC LIMIT ?',
+      [limit]
+    );
+    return (recent.rows || []).map((row: any) => ({ text: row.query, source: 'history' as const }));
+  }
+
+  const prefix = text.replace(/^\s+/, '');
+  const suggestions: SearchSuggestion[] = [];
+  const seen = new Set<string>([prefix.trim().toLowerCase()]);
+
+  const add = (suggestion: string, source: SearchSuggestion['source']): void => {
+    const key = suggestion.trim().toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      suggestions.push({ text: suggestion, source });
+    }
+  };
+
+  const history = db.executeSync(
+    `SELECT query FROM search_history
+     WHERE query LIKE ? ESCAPE '\\'
+     ORDER BY use_count DESC, last_used_at DESC
+     LIMIT ?`,
+    [`${escapeLike(prefix)}%`, limit]
+  );
+  for (const row of (history.rows || []) as any[]) {
+    add(row.query, 'history');
+  }
+
+  // Complete the word being typed (nothing to complete after a trailing space)
+  const lastWord = /(\S+)$/.exec(prefix)?.[1]?.toLowerCase() ?? '';
+  if (lastWord.length >= MIN_COMPLETION_LENGTH && suggestions.length < limit) {
+    // Range scan on term - fts5vocab can use it instead of reading every term
+    const terms = db.executeSync(
+      `SELECT term FROM files_fts_vocab
+       WHERE col IN ('caption', 'tags') AND term > ? AND term < ?
+       ORDER BY doc DESC
+       LIMIT ?`,
+      [lastWord, `${lastWord}\uffff`, limit]
+    );
+    const stem = prefix.slice(0, prefix.length - lastWord.length);
+    for (const row of (terms.rows || []) as any[]) {
+      add(`${stem}${row.term}`, 'term');
+    }
+  }
+
+  return suggestions.slice(0, limit);
+};
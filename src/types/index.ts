@@ -11,6 +11,8 @@ export interface SelectedFile {
   type: FileType;
   mimeType: string;
   size: number;
+  contentHash?: string | null; // SHA-256 of file contents, set during indexing
+  sourceUri?: string | null; // Where the file was picked from (uri is the app's own copy)
 }
 
 // Database Types
@@ -24,9 +26,127 @@ export interface FileRecord {
   created_at: number;
 }
 
+// Everything the detail screen shows about one memory
+export interface FileDetails extends FileRecord {
+  caption_model: string | null; // vision model slug, a CAPTION_SOURCE_* value, or null if unknown
+  caption_edited: boolean;      // the user rewrote the caption (caption_model wrote the original)
+  note: string | null;
+  tags: string[];
+  auto_tags: string[];          // labels from the AUTO_TAG_LABELS vocabulary
+  document: DocumentFields | null; // PDFs only
+  source_uri: string | null;
+  size: number | null;          // bytes on disk, null if the file is missing
+}
+
 export interface SearchResult extends FileRecord {
-  distance: number;
-  similarity: number; // 1 - distance for display
+  distance: number;   // cosine distance to the query
+  similarity: number; // calibrated 0-1 relevance for display
+  match: MatchExplanation;
+}
+
+// A keyword term from the search box
+export interface QueryTerm {
+  text: string;     // lowercased word or phrase
+  prefix: boolean;  // match words starting with text
+  phrase: boolean;  // match the words in order
+}
+
+// Why a result matched - similarity is the higher of the two scores.
+// Both are 0 for results that matched on filters alone.
+export interface MatchExplanation {
+  semanticScore: number;     // 0-1 relevance of the caption's meaning
+  keywordScore: number;      // share of query terms found (0 unless a keyword hit)
+  matchedTerms: QueryTerm[]; // query terms the caption or filename contains
+}
+
+// Kind of document a PDF was classified as
+export type DocumentType =
+  | 'invoice'
+  | 'receipt'
+  | 'bank_statement'
+  | 'contract'
+  | 'ticket'
+  | 'letter'
+  | 'other';
+
+// Key fields pulled out of a PDF's text
+export interface DocumentFields {
+  documentType: DocumentType;
+  counterparty: string | null;  // who issued it (shop, company, bank)
+  totalAmount: number | null;   // the total due or paid, else the largest amount
+  currency: string | null;      // ISO code, e.g. 'EUR'
+  documentDate: number | null;  // first date in the text (ms since epoch, local midnight)
+  amounts: number[];            // every currency amount, in text order
+  dates: number[];              // every date, in text order
+  referenceNumbers: string[];   // invoice, order, account or booking numbers
+}
+
+// Document words understood in the query ("invoice over 500 from Acme")
+export interface DocumentQuery {
+  documentType: DocumentType | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  counterparty: string | null;
+  label: string;  // e.g. "Invoices over 500 from Acme"
+  text: string;   // the words it was parsed from
+}
+
+// Filters parsed out of the search box (type:, before:, after:, name:, is:, doc:, "phrases")
+export interface SearchFilters {
+  fileType?: FileType;
+  after?: number;      // created_at >= (ms since epoch)
+  before?: number;     // created_at < (ms since epoch)
+  name?: string[];     // filename must contain each
+  autoTags?: string[]; // must carry each automatic tag
+  documentType?: DocumentType;
+  minAmount?: number;    // document total >=
+  maxAmount?: number;    // document total <=
+  counterparty?: string; // document counterparty must contain
+  phrases?: string[];  // caption, filename, note or tags must contain each exact phrase
+}
+
+// Date range understood from words in the query ("last week", "in March")
+export interface DateRange {
+  start: number;  // ms since epoch, inclusive
+  end: number;    // ms since epoch, exclusive
+  label: string;  // e.g. "Last week", "March 2025"
+  text: string;   // the words it was parsed from
+}
+
+export interface ParsedQuery {
+  text: string;      // free text to embed (filters, dates and quotes removed)
+  keywords: string;  // free text for keyword matching (quotes kept)
+  filters: SearchFilters;
+  dateRange: DateRange | null;
+  documentQuery: DocumentQuery | null;
+}
+
+export interface SearchOptions {
+  offset?: number;
+  limit?: number;
+  parseDates?: boolean; // false keeps date words as plain text (chip dismissed)
+  parseDocuments?: boolean; // false keeps document words as plain text (chip dismissed)
+  plainText?: boolean;  // no filter tokens, dates or phrases (generated queries)
+}
+
+// One page of search results
+export interface SearchPage {
+  results: SearchResult[];
+  total: number;            // relevant matches found so far
+  totalIsEstimate: boolean; // more may turn up past the candidates examined
+  dateRange: DateRange | null;
+  documentQuery: DocumentQuery | null;
+}
+
+// Example image being searched with
+export interface ImageQuery {
+  filename: string;
+  caption: string | null; // null until the vision model has described it
+}
+
+// Results of searching by an example image
+export interface ImageSearchPage extends SearchPage {
+  queryCaption: string; // what the vision model saw - this is what was searched for
 }
 
 // Processing Types
@@ -47,14 +167,48 @@ export type ProcessingPhase =
   | 'loading_embedding'
   | 'embedding'
   | 'saving'
+  | 'paused'
   | 'complete'
   | 'error';
 
+// A file that could not be indexed, with the reason
+export interface IndexingFailure {
+  filename: string;
+  fileType: FileType;
+  error: string;
+}
+
+// Outcome of a single indexFiles run
+export interface IndexingSummary {
+  jobId: number | null; // null when nothing was queued (all duplicates)
+  total: number;
+  indexed: number;
+  skippedDuplicates: number;
+  cancelled: boolean;
+  failed: IndexingFailure[];
+}
+
+// Persistent Indexing Job Types
+export type JobFileStatus = 'pending' | 'captioned' | 'embedded' | 'saved' | 'failed';
+
+// Unfinished job that can be resumed after an app restart
+export interface IndexingJobInfo {
+  id: number;
+  visionModel: string;
+  createdAt: number;
+  total: number;
+  completed: number;
+  failed: number;
+  remaining: number;
+}
+
 // Batch Processing Types
 export interface CaptionedFile {
   file: SelectedFile;
   caption: string;
+  captionModel: string | null;
   thumbnail: string | null;
+  documentFields?: DocumentFields | null; // PDFs only
 }
 
 export interface EmbeddedFile extends CaptionedFile {
@@ -72,9 +226,47 @@ export interface EngineState {
   error: string | null;
   totalIndexedFiles: number;
   selectedVisionModel: string;
+  lastIndexingSummary: IndexingSummary | null;
+  resumableJob: IndexingJobInfo | null;
+}
+
+// Autocomplete entry under the search bar
+export interface SearchSuggestion {
+  text: string;
+  source: 'history' | 'term'; // a past query, or a completion from caption words
+}
+
+// User tag shared across memories
+export interface Tag {
+  id: number;
+  name: string;
+  fileCount: number;
+}
+
+// Label from the automatic tag vocabulary and how many memories carry it
+export interface AutoTag {
+  label: string;
+  fileCount: number;
+}
+
+// Query saved as a smart album
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string; // includes filter tokens such as type:pdf
+  parseDates: boolean; // false if the user dismissed the date chip before saving
+  parseDocuments: boolean; // false if the user dismissed the document chip before saving
+  createdAt: number;
 }
 
 // Search State
+export interface SearchPagination {
+  total: number;
+  totalIsEstimate: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+}
+
 export interface SearchState {
   query: string;
   results: SearchResult[];